@@ -4,14 +4,19 @@ import fs from "fs";
 import path from "path";
 import { generateObject } from "ai";
 import { z } from "zod";
+import {
+  explainRouting,
+  estimateTokens,
+  getSafeChunkTokens,
+  runWithRouter,
+  type RouterConfig,
+} from "../../lib/model-router";
 
 // Configuration
 const CONFIG = {
-  // Context limits (tokens) - adjust based on your model
-  // GPT-4.1 typically has ~128k context, but we'll use smaller chunks for safety
-  MAX_CHUNK_TOKENS: 8000, // Conservative chunk size
+  // Chunk size comes from the routed model's context window (getSafeChunkTokens)
+  MIN_CHUNK_TOKENS: 8000, // Every routed model must fit at least this much
   OVERLAP_TOKENS: 200, // Overlap between chunks to maintain context
-  CHUNK_SIZE_CHARS: 16000, // Approximate character count (roughly 4 chars per token)
   STATE_FILE: "app/(1-extraction)/.extraction-state.json",
   MAX_RETRIES: 3,
   RETRY_DELAY_MS: 1000,
@@ -94,10 +99,19 @@ interface ProcessingState {
   completedChunks: number[];
   failedChunks: number[];
   chunkResults: Record<number, any>;
+  chunkTokens?: number; // Chunk size the file was split with (kept on resume)
   startTime: number;
   lastUpdate: number;
 }
 
+// Every chunk call is routed (with fallback) and recorded in routing telemetry
+const ROUTING: RouterConfig = {
+  task: "extraction",
+  priority: "balanced",
+  complexity: "medium",
+  requiredCapabilities: ["structured_output"],
+};
+
 function loadState(filePath: string): ProcessingState | null {
   try {
     if (fs.existsSync(CONFIG.STATE_FILE)) {
@@ -192,14 +206,9 @@ async function extractChunk(
   try {
     updateProgress(chunkIndex, totalChunks, chunkIndex, "processing");
 
-    // Use streamText for streaming, but we'll collect the full result
-    // In a real scenario, you might want to stream to UI
-    const result = await generateObject({
-      model: "openai/gpt-4.1",
-      schema: chunkExtractionSchema,
-      prompt: `Extract key information from this document chunk. This is chunk ${
-        chunkIndex + 1
-      } of ${totalChunks}.
+    const prompt = `Extract key information from this document chunk. This is chunk ${
+      chunkIndex + 1
+    } of ${totalChunks}.
 
 Extract:
 - All people mentioned (names, roles, companies)
@@ -208,8 +217,20 @@ Extract:
 - Relationships between people (if any)
 
 Chunk text:
-${chunkText}`,
-    });
+${chunkText}`;
+
+    // Use streamText for streaming, but we'll collect the full result
+    // In a real scenario, you might want to stream to UI
+    const { result } = await runWithRouter(
+      { ...ROUTING, estimatedInputTokens: estimateTokens(prompt) },
+      (model, { signal }) =>
+        generateObject({
+          model,
+          schema: chunkExtractionSchema,
+          prompt,
+          abortSignal: signal,
+        })
+    );
 
     updateProgress(chunkIndex + 1, totalChunks, chunkIndex, "completed");
     return result.object;
@@ -233,18 +254,24 @@ ${chunkText}`,
 
     // Fallback: return a summary instead of structured extraction
     try {
-      const fallbackResult = await generateObject({
-        model: "openai/gpt-4.1",
-        schema: z.object({
-          summary: z.string().describe("Summary of the chunk content"),
-          people: z.array(z.string()).optional(),
-          companies: z.array(z.string()).optional(),
-        }),
-        prompt: `Provide a brief summary of this document chunk and list any people or companies mentioned.
+      const prompt = `Provide a brief summary of this document chunk and list any people or companies mentioned.
 
 Chunk text:
-${chunkText}`,
-      });
+${chunkText}`;
+      const { result: fallbackResult } = await runWithRouter(
+        { ...ROUTING, estimatedInputTokens: estimateTokens(prompt) },
+        (model, { signal }) =>
+          generateObject({
+            model,
+            schema: z.object({
+              summary: z.string().describe("Summary of the chunk content"),
+              people: z.array(z.string()).optional(),
+              companies: z.array(z.string()).optional(),
+            }),
+            prompt,
+            abortSignal: signal,
+          })
+      );
 
       return {
         people: (fallbackResult.object.people || []).map((name: string) => ({
@@ -518,13 +545,32 @@ async function processDocument(
     `📊 Size: ${fileSizeMB} MB (${fileContent.length.toLocaleString()} characters)\n`
   );
 
-  // Chunk the text
+  // Size chunks for the model routing would pick (a dry run, so nothing is
+  // recorded); each chunk is then routed on its own. On resume, keep the
+  // original size so chunk boundaries match the saved results.
+  const chunkTokens =
+    state?.chunkTokens ??
+    getSafeChunkTokens(
+      (
+        await explainRouting({
+          ...ROUTING,
+          estimatedInputTokens: Math.min(
+            estimateTokens(fileContent),
+            CONFIG.MIN_CHUNK_TOKENS
+          ),
+        })
+      ).selectedModel
+    );
+
+  // Chunk the text (roughly 4 chars per token)
   const chunks = chunkText(
     fileContent,
-    CONFIG.CHUNK_SIZE_CHARS,
+    chunkTokens * 4,
     CONFIG.OVERLAP_TOKENS * 4
   );
-  console.log(`📦 Split into ${chunks.length} chunks\n`);
+  console.log(
+    `📦 Split into ${chunks.length} chunks (max ${chunkTokens.toLocaleString()} tokens each)\n`
+  );
 
   // Initialize or update state
   if (!state) {
@@ -534,6 +580,7 @@ async function processDocument(
       completedChunks: [],
       failedChunks: [],
       chunkResults: {},
+      chunkTokens,
       startTime: Date.now(),
       lastUpdate: Date.now(),
     };
@@ -3,6 +3,13 @@
 import { generateObject } from "ai";
 import { z } from "zod";
 import pLimit from "p-limit";
+import {
+  explainRouting,
+  estimateTokens,
+  getSafeChunkTokens,
+  runWithRouter,
+  type RouterConfig,
+} from "@/lib/model-router";
 
 const summarizationSchema = z.object({
   headline: z.string().describe("The headline of the article"),
@@ -14,13 +21,19 @@ const summarizationSchema = z.object({
 // Configuration for chunking
 const CHUNK_CONFIG = {
   MAX_COMMENTS_PER_CHUNK: 50, // Process 50 comments at a time
-  MAX_TOKENS_PER_CHUNK: 8000, // Conservative token limit
   CONCURRENCY_LIMIT: 3, // Process 3 chunks in parallel
   MAX_RETRIES: 3, // Maximum retry attempts for failed chunks
   RETRY_DELAY_MS: 1000, // Initial retry delay (exponential backoff)
   IMPORTANCE_THRESHOLD: 0.6, // Only summarize comments with importance >= 0.6
 };
 
+// Chunk summaries are routed (with fallback) and recorded in routing telemetry
+const CHUNK_ROUTING: RouterConfig = {
+  task: "summarization",
+  priority: "balanced",
+  complexity: "medium",
+};
+
 // Schema for classifying comment importance
 const importanceSchema = z.object({
   importance: z
@@ -47,11 +60,6 @@ type CommentImportance = z.infer<typeof importanceSchema> & {
   comment: any;
 };
 
-// Estimate token count (rough approximation: 1 token ≈ 4 characters)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 // Sleep utility for retry delays
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -126,8 +134,8 @@ Comment: ${JSON.stringify(comment)}`,
   return importantComments;
 }
 
-// Chunk comments into manageable batches
-function chunkComments(comments: any[]): any[][] {
+// Chunk comments into manageable batches (token limit sized to the chosen model)
+function chunkComments(comments: any[], maxTokensPerChunk: number): any[][] {
   const chunks: any[][] = [];
   let currentChunk: any[] = [];
   let currentTokenCount = 0;
@@ -139,7 +147,7 @@ function chunkComments(comments: any[]): any[][] {
     // If adding this comment would exceed limits, start a new chunk
     if (
       currentChunk.length >= CHUNK_CONFIG.MAX_COMMENTS_PER_CHUNK ||
-      currentTokenCount + commentTokens > CHUNK_CONFIG.MAX_TOKENS_PER_CHUNK
+      currentTokenCount + commentTokens > maxTokensPerChunk
     ) {
       if (currentChunk.length > 0) {
         chunks.push(currentChunk);
@@ -253,15 +261,23 @@ async function mapChunkToSummary(
   retryCount: number = 0
 ): Promise<z.infer<typeof summarizationSchema>> {
   try {
-    const { object: summary } = await generateObject({
-      model: "openai/gpt-4.1",
-      prompt: `Generate a summary of the following comments (chunk ${
-        chunkIndex + 1
-      } of ${totalChunks}): ${JSON.stringify(
-        chunk
-      )}. Focus on key decisions and action items.`,
-      schema: summarizationSchema,
-    });
+    const prompt = `Generate a summary of the following comments (chunk ${
+      chunkIndex + 1
+    } of ${totalChunks}): ${JSON.stringify(
+      chunk
+    )}. Focus on key decisions and action items.`;
+    const {
+      result: { object: summary },
+    } = await runWithRouter(
+      { ...CHUNK_ROUTING, estimatedInputTokens: estimateTokens(prompt) },
+      (model, { signal }) =>
+        generateObject({
+          model,
+          prompt,
+          schema: summarizationSchema,
+          abortSignal: signal,
+        })
+    );
     return summary;
   } catch (error: any) {
     // Retry logic with exponential backoff
@@ -475,8 +491,20 @@ export const generateSummary = async (comments: any[]) => {
 
     // For large comment sets, use MapReduce pattern
     console.log("📦 Large comment set detected, using MapReduce pattern...");
-    const chunks = chunkComments(commentsToSummarize);
-    console.log(`   Split into ${chunks.length} chunks`);
+
+    // Size chunks for the model routing would pick for the largest comment
+    // (a dry run, so nothing is recorded); each chunk is then routed on its own
+    const { selectedModel } = await explainRouting({
+      ...CHUNK_ROUTING,
+      estimatedInputTokens: Math.max(
+        ...commentsToSummarize.map((c) => estimateTokens(JSON.stringify(c)))
+      ),
+    });
+    const maxTokensPerChunk = getSafeChunkTokens(selectedModel);
+    const chunks = chunkComments(commentsToSummarize, maxTokensPerChunk);
+    console.log(
+      `   Split into ${chunks.length} chunks (max ${maxTokensPerChunk} tokens each)`
+    );
 
     // MAP PHASE: Transform each chunk into a summary
     const chunkSummaries = await mapPhase(chunks);
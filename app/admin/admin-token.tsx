@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const TOKEN_STORAGE_KEY = "router-admin-token"; // ADMIN_API_TOKEN, when the server sets one
+
+// Admin token kept in local storage, sent as a bearer token
+export function useAdminToken() {
+  const [token, setToken] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false); // Local storage is only readable after mount
+
+  useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_STORAGE_KEY));
+    setLoaded(true);
+  }, []);
+
+  const saveToken = useCallback((value: string) => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, value);
+    setToken(value);
+  }, []);
+
+  const headers = useMemo(
+    (): Record<string, string> =>
+      token ? { Authorization: `Bearer ${token}` } : {},
+    [token]
+  );
+
+  return { token, loaded, headers, saveToken };
+}
+
+// Prompt shown after a 401
+export function AdminTokenCard({ onSave }: { onSave: (token: string) => void }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Admin token required</CardTitle>
+        <CardDescription>
+          The server sets ADMIN_API_TOKEN. The token is kept in this
+          browser&apos;s local storage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const value = new FormData(e.currentTarget).get("token");
+            if (typeof value !== "string" || !value) return;
+            onSave(value);
+          }}
+        >
+          <Input name="token" type="password" placeholder="Admin token" />
+          <Button type="submit">Save</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
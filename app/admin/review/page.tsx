@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AdminTokenCard, useAdminToken } from "../admin-token";
+
+const REFRESH_INTERVAL_MS = 10000;
+const REVIEWER_STORAGE_KEY = "moderation-reviewer";
+const STATUSES = ["pending", "claimed", "approved", "overturned"] as const;
+type Status = (typeof STATUSES)[number];
+
+// The parts of /api/moderation/review rendered here
+type ReviewItem = {
+  id: string;
+  createdAt: number;
+  status: Status;
+  message: string;
+  locale?: string;
+  model: string | null;
+  claimedBy?: string;
+  result: {
+    severity: "safe" | "warning" | "critical";
+    action: string;
+    categories: string[];
+    riskScore: number;
+    reasoning: string;
+    decidedBy: string;
+    policy: { id: string; version: string };
+  };
+  resolution?: { reviewer: string; resolvedAt: number; note?: string };
+};
+
+const SEVERITY_STYLES = {
+  safe: "bg-green-100 text-green-800",
+  warning: "bg-yellow-100 text-yellow-800",
+  critical: "bg-red-100 text-red-800",
+};
+
+export default function ReviewQueue() {
+  const { loaded, headers, saveToken } = useAdminToken();
+  const [status, setStatus] = useState<Status>("pending");
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [counts, setCounts] = useState<Record<Status, number> | null>(null);
+  const [reviewer, setReviewer] = useState("");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [unauthorized, setUnauthorized] = useState(false);
+
+  useEffect(() => {
+    setReviewer(localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/moderation/review?status=${status}`, {
+        cache: "no-store",
+        headers,
+      });
+      setUnauthorized(response.status === 401);
+      if (!response.ok) throw new Error(`Review request failed (${response.status})`);
+      const data = await response.json();
+      setItems(data.items);
+      setCounts(data.counts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [status, headers]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh, loaded]);
+
+  const act = async (item: ReviewItem, action: "claim" | "approve" | "overturn") => {
+    if (!reviewer) {
+      setError("Enter your name before reviewing");
+      return;
+    }
+    const response = await fetch(`/api/moderation/review/${item.id}`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ action, reviewer, note: notes[item.id] || undefined }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setError(body.error ?? `Review action failed (${response.status})`);
+    }
+    await refresh();
+  };
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Home
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Review Queue</h1>
+          <p className="text-sm text-muted-foreground">
+            Flagged moderation results waiting for a human verdict
+          </p>
+        </div>
+        <Input
+          className="max-w-48"
+          placeholder="Your name"
+          value={reviewer}
+          onChange={(e) => {
+            setReviewer(e.target.value);
+            localStorage.setItem(REVIEWER_STORAGE_KEY, e.target.value);
+          }}
+        />
+      </div>
+
+      {error && (
+        <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</p>
+      )}
+
+      {unauthorized && <AdminTokenCard onSave={saveToken} />}
+
+      <div className="flex gap-2">
+        {STATUSES.map((s) => (
+          <Button
+            key={s}
+            variant={s === status ? "default" : "secondary"}
+            onClick={() => setStatus(s)}
+          >
+            {s} {counts && `(${counts[s]})`}
+          </Button>
+        ))}
+      </div>
+
+      {items.length === 0 && !unauthorized && (
+        <p className="text-sm text-muted-foreground">No {status} items.</p>
+      )}
+
+      {items.map((item) => {
+        const open = item.status === "pending" || item.status === "claimed";
+        const mine = item.status === "claimed" && item.claimedBy === reviewer;
+        return (
+          <Card key={item.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base">
+                  <span
+                    className={`rounded px-2 py-0.5 text-xs ${SEVERITY_STYLES[item.result.severity]}`}
+                  >
+                    {item.result.severity}
+                  </span>{" "}
+                  {item.result.action} · risk {item.result.riskScore}
+                </CardTitle>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(item.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <CardDescription>
+                {item.result.categories.join(", ") || "no categories"} · policy{" "}
+                {item.result.policy.id}@{item.result.policy.version} · decided by{" "}
+                {item.result.decidedBy}
+                {item.model && ` (${item.model})`}
+                {item.claimedBy && ` · claimed by ${item.claimedBy}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <blockquote className="border-l-4 pl-3 text-sm whitespace-pre-wrap">
+                {item.message}
+              </blockquote>
+              <p className="text-sm text-muted-foreground">{item.result.reasoning}</p>
+              {item.resolution && (
+                <p className="text-sm">
+                  {item.status} by {item.resolution.reviewer} on{" "}
+                  {new Date(item.resolution.resolvedAt).toLocaleString()}
+                  {item.resolution.note && `: ${item.resolution.note}`}
+                </p>
+              )}
+              {open && (
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    className="flex-1 min-w-48"
+                    placeholder="Note (optional)"
+                    value={notes[item.id] ?? ""}
+                    onChange={(e) => setNotes({ ...notes, [item.id]: e.target.value })}
+                  />
+                  {!mine && (
+                    <Button variant="secondary" onClick={() => act(item, "claim")}>
+                      Claim
+                    </Button>
+                  )}
+                  <Button onClick={() => act(item, "approve")}>Approve</Button>
+                  <Button variant="destructive" onClick={() => act(item, "overturn")}>
+                    Overturn
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </main>
+  );
+}
@@ -0,0 +1,56 @@
+type BarChartProps = {
+  data: Array<{ label: string; value: number }>;
+  format?: (value: number) => string;
+};
+
+// Horizontal bars scaled to the largest value
+export function BarChart({ data, format = String }: BarChartProps) {
+  const max = Math.max(...data.map((d) => d.value), 0);
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No data yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {data.map((d) => (
+        <div key={d.label} className="text-sm">
+          <div className="flex justify-between mb-1">
+            <span className="truncate pr-2">{d.label}</span>
+            <span className="tabular-nums text-muted-foreground">
+              {format(d.value)}
+            </span>
+          </div>
+          <div className="h-2 rounded bg-gray-100">
+            <div
+              className="h-2 rounded bg-blue-500"
+              style={{ width: max > 0 ? `${(d.value / max) * 100}%` : "0%" }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type ColumnChartProps = {
+  data: Array<{ label: string; value: number }>;
+};
+
+// Vertical columns over time, labelled by title tooltips
+export function ColumnChart({ data }: ColumnChartProps) {
+  const max = Math.max(...data.map((d) => d.value), 0);
+
+  return (
+    <div className="flex items-end gap-px h-24">
+      {data.map((d) => (
+        <div
+          key={d.label}
+          title={`${d.label}: ${d.value}`}
+          className="flex-1 bg-blue-500 rounded-t-sm min-h-px"
+          style={{ height: max > 0 ? `${(d.value / max) * 100}%` : "0%" }}
+        />
+      ))}
+    </div>
+  );
+}
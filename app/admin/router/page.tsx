@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AdminTokenCard, useAdminToken } from "../admin-token";
+import { BarChart, ColumnChart } from "./bar-chart";
+
+const REFRESH_INTERVAL_MS = 5000;
+
+// The parts of /api/model-router/stats rendered here
+type RouterStats = {
+  summary: {
+    totalDecisions: number;
+    uniqueModels: number;
+    policyVersion: string;
+    forcedDecisions: number;
+    stickyDecisions: number;
+    hedgedDecisions: number;
+    dateRange: { start: string; end: string } | null;
+  };
+  modelUsage: Array<{ model: string; count: number; percentage: string }>;
+  performance: Array<{
+    model: string;
+    avgLatencyMs: number;
+    p50LatencyMs: number | null;
+    p95LatencyMs: number | null;
+    p99LatencyMs: number | null;
+    errorRate: string | null;
+    windowSamples: number;
+  }>;
+  costAnalysis: Array<{
+    model: string;
+    totalCost: number;
+    callCount: number;
+    costPerCall: number;
+  }>;
+  timeline: Array<{
+    id: string;
+    timestamp: number;
+    date: string;
+    model: string;
+    task: string;
+    priority: string;
+    reason: string;
+    strategy: string;
+    exploration: boolean;
+  }>;
+  circuitBreakers: Array<{
+    model: string;
+    state: "closed" | "open" | "half_open";
+    consecutiveFailures: number;
+    lastFailureAt: string | null;
+  }>;
+  tenantBudgets: Array<{
+    tenant: string;
+    period: string;
+    spentUsd: number;
+    hardLimitUsd: number | null;
+    status: string;
+  }>;
+  timeSeries: {
+    totals: Array<{ start: number; time: string; decisions: number }>;
+  };
+};
+
+const BREAKER_STYLES = {
+  closed: "bg-green-100 text-green-800",
+  half_open: "bg-yellow-100 text-yellow-800",
+  open: "bg-red-100 text-red-800",
+};
+
+const formatMs = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value)}ms`;
+
+export default function RouterDashboard() {
+  const [stats, setStats] = useState<RouterStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const { token, loaded, saveToken } = useAdminToken();
+  const [unauthorized, setUnauthorized] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(
+        "/api/model-router/stats?granularity=minute",
+        {
+          cache: "no-store",
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        }
+      );
+      setUnauthorized(response.status === 401);
+      if (!response.ok) throw new Error(`Stats request failed (${response.status})`);
+      setStats(await response.json());
+      setUpdatedAt(new Date());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    refresh();
+    if (paused) return;
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh, paused, loaded]);
+
+  return (
+    <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Home
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Model Router</h1>
+          <p className="text-sm text-muted-foreground">
+            {updatedAt
+              ? `Updated ${updatedAt.toLocaleTimeString()}`
+              : "Loading..."}
+            {paused ? " · paused" : ` · refreshing every ${REFRESH_INTERVAL_MS / 1000}s`}
+          </p>
+        </div>
+        <Button variant="secondary" onClick={() => setPaused(!paused)}>
+          {paused ? "Resume" : "Pause"}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</p>
+      )}
+
+      {unauthorized && <AdminTokenCard onSave={saveToken} />}
+
+      {stats && (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            {[
+              ["Decisions", stats.summary.totalDecisions],
+              ["Models used", stats.summary.uniqueModels],
+              ["Policy", stats.summary.policyVersion],
+              [
+                "Forced / sticky / hedged",
+                `${stats.summary.forcedDecisions} / ${stats.summary.stickyDecisions} / ${stats.summary.hedgedDecisions}`,
+              ],
+            ].map(([label, value]) => (
+              <Card key={label}>
+                <CardHeader>
+                  <CardDescription>{label}</CardDescription>
+                  <CardTitle className="text-2xl">{value}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Decisions per minute</CardTitle>
+              <CardDescription>Last hour</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ColumnChart
+                data={stats.timeSeries.totals.map((point) => ({
+                  label: new Date(point.start).toLocaleTimeString(),
+                  value: point.decisions,
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Model usage</CardTitle>
+                <CardDescription>Recent routing decisions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BarChart
+                  data={stats.modelUsage.map((m) => ({
+                    label: m.model,
+                    value: m.count,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Cost</CardTitle>
+                <CardDescription>Actual spend from token usage</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BarChart
+                  data={stats.costAnalysis
+                    .filter((c) => c.totalCost > 0)
+                    .map((c) => ({ label: c.model, value: c.totalCost }))}
+                  format={(value) => `$${value.toFixed(4)}`}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Latency</CardTitle>
+              <CardDescription>Rolling window per model</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-2">Model</th>
+                    <th>Avg</th>
+                    <th>p50</th>
+                    <th>p95</th>
+                    <th>p99</th>
+                    <th>Errors</th>
+                    <th>Samples</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {stats.performance.map((p) => (
+                    <tr key={p.model} className="border-t">
+                      <td className="py-2">{p.model}</td>
+                      <td>{formatMs(p.avgLatencyMs)}</td>
+                      <td>{formatMs(p.p50LatencyMs)}</td>
+                      <td>{formatMs(p.p95LatencyMs)}</td>
+                      <td>{formatMs(p.p99LatencyMs)}</td>
+                      <td>{p.errorRate === null ? "—" : `${p.errorRate}%`}</td>
+                      <td>{p.windowSamples}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Decision timeline</CardTitle>
+                <CardDescription>Latest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.timeline.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No decisions yet.
+                  </p>
+                )}
+                <ul className="space-y-3">
+                  {[...stats.timeline].reverse().map((d) => (
+                    <li key={d.id} className="text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">{d.model}</span>
+                        <span className="text-muted-foreground">
+                          {new Date(d.timestamp).toLocaleTimeString()}
+                        </span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {d.task} · {d.priority} · {d.strategy}
+                        {d.exploration && " · exploration"}
+                      </div>
+                      <div>{d.reason}</div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Health</CardTitle>
+                <CardDescription>Circuit breakers and budgets</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-2">
+                  {stats.circuitBreakers.map((b) => (
+                    <li
+                      key={b.model}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="truncate pr-2">{b.model}</span>
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs ${BREAKER_STYLES[b.state]}`}
+                        title={
+                          b.lastFailureAt
+                            ? `Last failure ${b.lastFailureAt}`
+                            : undefined
+                        }
+                      >
+                        {b.state.replace("_", "-")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {stats.tenantBudgets.length > 0 && (
+                  <ul className="space-y-2 border-t pt-4">
+                    {stats.tenantBudgets.map((b) => (
+                      <li key={b.tenant} className="text-sm">
+                        <span className="font-medium">{b.tenant}</span>{" "}
+                        <span className="text-muted-foreground">
+                          ${b.spentUsd.toFixed(4)}
+                          {b.hardLimitUsd !== null && ` of $${b.hardLimitUsd}`}{" "}
+                          ({b.period}) · {b.status}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
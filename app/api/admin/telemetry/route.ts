@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  TelemetrySnapshotSchema,
+  exportTelemetrySnapshot,
+  importTelemetrySnapshot,
+  pruneTelemetry,
+  resetTelemetry,
+} from "@/lib/model-router";
+
+// Telemetry admin API (requires ADMIN_API_TOKEN when set):
+//   GET                            export a telemetry snapshot
+//   PUT    <snapshot>              import a snapshot, replacing current telemetry
+//   DELETE ?model=...              reset one model (all models if omitted)
+//   DELETE ?before=...&model=...   prune samples and decisions older than `before`
+
+// `before` as epoch milliseconds or an ISO date
+const DeleteQuerySchema = z.object({
+  model: z.string().min(1).optional(),
+  before: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value,
+      z.coerce.date()
+    )
+    .optional(),
+});
+
+function errorResponse(action: string, error: unknown) {
+  console.error(`Error during telemetry ${action}:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} telemetry`,
+      message: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const snapshot = await exportTelemetrySnapshot();
+    return NextResponse.json(snapshot, {
+      headers: {
+        "Content-Disposition": `attachment; filename="telemetry-${snapshot.exportedAt.slice(0, 10)}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return errorResponse("export", error);
+  }
+}
+
+export async function PUT(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = TelemetrySnapshotSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid telemetry snapshot", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const imported = await importTelemetrySnapshot(parsed.data);
+    return NextResponse.json({ success: true, imported });
+  } catch (error) {
+    return errorResponse("import", error);
+  }
+}
+
+export async function DELETE(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const query = DeleteQuerySchema.safeParse({
+    model: params.get("model") ?? undefined,
+    before: params.get("before") ?? undefined,
+  });
+  if (!query.success) {
+    return NextResponse.json(
+      { error: "Invalid query", issues: query.error.issues },
+      { status: 400 }
+    );
+  }
+  const { model, before } = query.data;
+
+  try {
+    if (before) {
+      const pruned = await pruneTelemetry(before.getTime(), model);
+      return NextResponse.json({ success: true, model: model ?? null, pruned });
+    }
+    await resetTelemetry(model);
+    return NextResponse.json({ success: true, model: model ?? null, reset: true });
+  } catch (error) {
+    return errorResponse(before ? "prune" : "reset", error);
+  }
+}
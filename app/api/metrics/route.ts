@@ -0,0 +1,21 @@
+import { renderMetrics } from "@/lib/metrics-registry";
+import { requireAdmin } from "@/lib/admin-auth";
+// Imported for their metrics, so every family is exported from the first scrape
+import "@/lib/model-router";
+import "@/lib/moderation-metrics";
+import "@/lib/rate-limit";
+
+// Prometheus / OpenMetrics scrape endpoint for router and moderation metrics.
+// Counters are per server process and reset on restart. Requires the admin
+// token (as a bearer token) when ADMIN_API_TOKEN is set.
+export async function GET(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "application/openmetrics-text; version=1.0.0; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
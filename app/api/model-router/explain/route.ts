@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import {
+  explainRouting,
+  RouterConfigSchema,
+  NoEligibleModelError,
+  BudgetExceededError,
+} from "@/lib/model-router";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// Dry-run routing for a config: returns the decision with per-factor score
+// breakdowns, without recording history. Requires the admin token when
+// ADMIN_API_TOKEN is set, since decisions expose tenant budgets.
+// e.g. /api/model-router/explain?task=classification&priority=speed&requiredCapabilities=structured_output&estimatedInputTokens=200000
+export async function GET(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const numberParam = (name: string) => {
+    const value = params.get(name);
+    return value ? Number(value) : undefined;
+  };
+  const requiredCapabilities = params.get("requiredCapabilities");
+
+  const parsed = RouterConfigSchema.safeParse({
+    task: params.get("task") ?? undefined,
+    priority: params.get("priority") ?? undefined,
+    complexity: params.get("complexity") ?? undefined,
+    maxLatencyMs: numberParam("maxLatencyMs"),
+    estimatedInputTokens: numberParam("estimatedInputTokens"),
+    requiredCapabilities: requiredCapabilities
+      ? requiredCapabilities.split(",").map((c) => c.trim()).filter(Boolean)
+      : undefined,
+    tenant: params.get("tenant") ?? undefined,
+    strategy: params.get("strategy") ?? undefined,
+    affinityKey: params.get("affinityKey") ?? undefined,
+    affinityTtlMs: numberParam("affinityTtlMs"),
+    forceModel: params.get("forceModel") ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid router config", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const decision = await explainRouting(parsed.data);
+    return NextResponse.json({ dryRun: true, decision });
+  } catch (error) {
+    if (error instanceof NoEligibleModelError) {
+      return NextResponse.json(
+        {
+          error: "No eligible model",
+          message: error.message,
+          excluded: error.excluded,
+        },
+        { status: 422 }
+      );
+    }
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: "Budget exceeded",
+          message: error.message,
+          tenant: error.budget.tenant,
+          period: error.budget.periodKey,
+        },
+        { status: 402 }
+      );
+    }
+
+    console.error("Error explaining routing decision:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to explain routing decision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  DuplicateFeedbackError,
+  QualityFeedbackSchema,
+  UnknownDecisionError,
+  recordQualityFeedback,
+} from "@/lib/model-router";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// Attach a quality signal to a routing decision (requires the admin token
+// when ADMIN_API_TOKEN is set). The selected model's quality for the
+// decision's task feeds into quality-weighted routing; each source signals
+// a decision once.
+// e.g. { "decisionId": "...", "signal": "human_override", "source": "support", "note": "not spam" }
+export async function POST(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = QualityFeedbackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid feedback", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await recordQualityFeedback(parsed.data);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof UnknownDecisionError) {
+      return NextResponse.json(
+        { error: "Unknown decision", message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof DuplicateFeedbackError) {
+      return NextResponse.json(
+        { error: "Duplicate feedback", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error recording quality feedback:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to record quality feedback",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,81 @@
 import { NextResponse } from "next/server";
-import { getRoutingStats } from "@/lib/model-router";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  GRANULARITIES,
+  TimeSeriesRangeError,
+  getRoutingStats,
+  getTimeSeries,
+} from "@/lib/model-router";
+
+// Epoch milliseconds or an ISO date
+const timestampParam = z.preprocess(
+  (value) => (typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value),
+  z.coerce.date()
+);
+
+// Time-series query: ?from=...&to=...&granularity=minute|hour|day
+const StatsQuerySchema = z.object({
+  from: timestampParam.optional(),
+  to: timestampParam.optional(),
+  granularity: z.enum(GRANULARITIES).default("hour"),
+});
+
+// Range returned when `from` is omitted
+const DEFAULT_RANGE_MS = {
+  minute: 60 * 60 * 1000, // Last hour
+  hour: 24 * 60 * 60 * 1000, // Last day
+  day: 30 * 24 * 60 * 60 * 1000, // Last 30 days
+};
+
+// Requires the admin token when ADMIN_API_TOKEN is set (decision reasons are sensitive)
+export async function GET(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const query = StatsQuerySchema.safeParse({
+    from: params.get("from") ?? undefined,
+    to: params.get("to") ?? undefined,
+    granularity: params.get("granularity") ?? undefined,
+  });
+  if (!query.success) {
+    return NextResponse.json(
+      { error: "Invalid stats query", issues: query.error.issues },
+      { status: 400 }
+    );
+  }
+  const { granularity } = query.data;
+  const to = query.data.to?.getTime() ?? Date.now();
+  const from = query.data.from?.getTime() ?? to - DEFAULT_RANGE_MS[granularity];
+  if (from > to) {
+    return NextResponse.json(
+      { error: "Invalid stats query", message: "`from` must be before `to`" },
+      { status: 400 }
+    );
+  }
 
-export async function GET() {
   try {
-    const stats = getRoutingStats();
+    const [stats, timeSeries] = await Promise.all([
+      getRoutingStats(),
+      getTimeSeries({ from, to, granularity }),
+    ]);
     
     // Format data for visualization
     const visualizationData = {
       summary: {
         totalDecisions: stats.totalDecisions,
         uniqueModels: Object.keys(stats.modelUsage).length,
-        dateRange: stats.recentDecisions.length > 0
+        policyVersion: stats.policyVersion,
+        policyVersionDistribution: stats.policyVersionDistribution,
+        forcedDecisions: stats.forcedCount,
+        stickyDecisions: stats.stickyCount,
+        hedgedDecisions: stats.hedgedCount,
+        hedgeWins: stats.hedgeWinCount,
+        dateRange: stats.historyRange
           ? {
-              start: new Date(Math.min(...stats.recentDecisions.map(d => d.timestamp))).toISOString(),
-              end: new Date(Math.max(...stats.recentDecisions.map(d => d.timestamp))).toISOString(),
+              start: new Date(stats.historyRange.start).toISOString(),
+              end: new Date(stats.historyRange.end).toISOString(),
             }
           : null,
       },
@@ -44,45 +106,126 @@ export async function GET() {
           count,
         })),
       
+      // Strategy distribution and exploration share
+      strategyDistribution: Object.entries(stats.strategyDistribution)
+        .map(([strategy, count]) => ({
+          strategy,
+          count,
+        })),
+      explorationRate: stats.totalDecisions > 0
+        ? (stats.explorationCount / stats.totalDecisions).toFixed(2)
+        : "0",
+      
       // Performance metrics
       performance: Object.entries(stats.avgLatencyByModel)
-        .map(([model, latency]) => ({
-          model,
-          avgLatencyMs: Math.round(latency),
-          callCount: stats.modelUsage[model] || 0,
-        }))
+        .map(([model, latency]) => {
+          const window = stats.windowStatsByModel[model];
+          return {
+            model,
+            avgLatencyMs: Math.round(latency),
+            // Rolling-window percentiles (null when no recent calls)
+            p50LatencyMs: window ? Math.round(window.p50LatencyMs) : null,
+            p95LatencyMs: window ? Math.round(window.p95LatencyMs) : null,
+            p99LatencyMs: window ? Math.round(window.p99LatencyMs) : null,
+            errorRate: window ? (window.errorRate * 100).toFixed(1) : null,
+            windowSamples: window?.sampleCount || 0,
+            callCount: stats.modelUsage[model] || 0,
+          };
+        })
         .sort((a, b) => a.avgLatencyMs - b.avgLatencyMs),
       
-      // Cost analysis
-      costAnalysis: Object.entries(stats.estimatedCostByModel)
-        .map(([model, cost]) => ({
-          model,
-          estimatedCost: parseFloat(cost.toFixed(4)),
-          callCount: stats.modelUsage[model] || 0,
-          costPerCall: stats.modelUsage[model] > 0
-            ? parseFloat((cost / stats.modelUsage[model]).toFixed(6))
+      // Cost analysis (actual spend from recorded token usage)
+      costAnalysis: stats.telemetry
+        .map((t) => ({
+          model: t.model,
+          totalCost: parseFloat(t.totalCostUsd.toFixed(6)),
+          inputTokens: t.inputTokens,
+          outputTokens: t.outputTokens,
+          callCount: t.callCount,
+          costPerCall: t.callCount > 0
+            ? parseFloat((t.totalCostUsd / t.callCount).toFixed(6))
             : 0,
         }))
-        .sort((a, b) => b.estimatedCost - a.estimatedCost),
+        .sort((a, b) => b.totalCost - a.totalCost),
+      
+      // Spend breakdowns
+      costByTask: Object.entries(stats.costByTask)
+        .map(([task, cost]) => ({
+          task,
+          totalCost: parseFloat(cost.toFixed(6)),
+        }))
+        .sort((a, b) => b.totalCost - a.totalCost),
+      costByDay: Object.entries(stats.costByDay)
+        .map(([day, cost]) => ({
+          day,
+          totalCost: parseFloat(cost.toFixed(6)),
+        }))
+        .sort((a, b) => a.day.localeCompare(b.day)),
       
       // Recent decisions timeline
       timeline: stats.recentDecisions.map((decision) => ({
+        id: decision.id,
         timestamp: decision.timestamp,
         date: new Date(decision.timestamp).toISOString(),
         model: decision.selectedModel,
         task: decision.config.task,
         priority: decision.config.priority,
         reason: decision.reason,
+        strategy: decision.strategy || "heuristic",
+        exploration: decision.exploration || false,
+      })),
+      
+      // Circuit breaker state per model
+      circuitBreakers: Object.values(stats.breakersByModel).map((b) => ({
+        model: b.model,
+        state: b.effectiveState,
+        consecutiveFailures: b.consecutiveFailures,
+        openedAt: b.openedAt ? new Date(b.openedAt).toISOString() : null,
+        lastFailureAt: b.lastFailureAt
+          ? new Date(b.lastFailureAt).toISOString()
+          : null,
       })),
       
+      // Spend per tenant against its budget
+      tenantBudgets: stats.tenantBudgets.map((b) => ({
+        tenant: b.tenant,
+        period: b.periodKey,
+        spentUsd: parseFloat(b.spentUsd.toFixed(6)),
+        softLimitUsd: b.softLimitUsd ?? null,
+        hardLimitUsd: b.hardLimitUsd ?? null,
+        status: b.status,
+      })),
+      
+      // Quality feedback per model and task
+      qualityFeedback: stats.telemetry.flatMap((t) =>
+        Object.entries(t.qualityByTask).map(([task, quality]) => ({
+          model: t.model,
+          task,
+          samples: quality.samples,
+          score: parseFloat((quality.totalValue / quality.samples).toFixed(3)),
+          lastFeedbackAt: new Date(quality.lastFeedbackAt).toISOString(),
+        }))
+      ),
+      
+      // Bucketed decisions, latency percentiles, error rates and cost
+      // (totals, per model and per task) for the requested range
+      timeSeries,
+      
       // Model comparison matrix
       modelComparison: stats.telemetry.map((t) => ({
         model: t.model,
         avgLatencyMs: Math.round(t.avgLatencyMs),
+        p95LatencyMs: stats.windowStatsByModel[t.model]
+          ? Math.round(stats.windowStatsByModel[t.model]!.p95LatencyMs)
+          : null,
         costPer1kTokens: t.costPer1kTokens,
         successRate: (t.successRate * 100).toFixed(1),
+        windowSuccessRate: stats.windowStatsByModel[t.model]
+          ? (stats.windowStatsByModel[t.model]!.successRate * 100).toFixed(1)
+          : null,
         callCount: t.callCount,
         capabilityTier: t.capabilityTier,
+        breakerState: stats.breakersByModel[t.model]?.effectiveState ?? "closed",
       })),
     };
     
@@ -92,6 +235,12 @@ export async function GET() {
       },
     });
   } catch (error: any) {
+    if (error instanceof TimeSeriesRangeError) {
+      return NextResponse.json(
+        { error: "Invalid stats query", message: error.message },
+        { status: 400 }
+      );
+    }
     console.error("Error fetching routing stats:", error);
     return NextResponse.json(
       { error: "Failed to fetch routing statistics", message: error.message },
@@ -0,0 +1,120 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { flushTimeSeries } from "@/lib/model-router";
+import { getTenantId } from "@/lib/tenant-budgets";
+import { getRoutingOverrides } from "@/lib/model-pinning";
+import {
+  BATCH_CONFIG,
+  BatchItemSchema,
+  moderateBatch,
+} from "@/lib/moderation";
+import {
+  getModerationPolicy,
+  UnknownModerationPolicyError,
+} from "@/lib/moderation-policy";
+import { consumeRateLimit, addRateLimitHeaders } from "@/lib/rate-limit";
+import dotenvFlow from "dotenv-flow";
+
+dotenvFlow.config();
+
+const BatchRequestSchema = z.object({
+  messages: z.array(BatchItemSchema).min(1).max(BATCH_CONFIG.MAX_ITEMS),
+  policy: z.string().optional(), // Policy id for the whole batch
+});
+
+// Batch moderation: each message counts against the rate limit, so a batch
+// larger than the remaining window is partially moderated and the overflow
+// items are returned as rate-limit errors
+export async function POST(request: NextRequest) {
+  after(flushTimeSeries); // Write this request's routing time series once it's done
+  const rateLimit = {
+    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100"),
+    windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60"),
+  };
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = BatchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid batch request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { messages } = parsed.data;
+
+  let policy;
+  try {
+    policy = getModerationPolicy(parsed.data.policy);
+  } catch (error) {
+    if (error instanceof UnknownModerationPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const { granted, remaining, resetAt } = await consumeRateLimit(
+      request,
+      messages.length,
+      rateLimit
+    );
+
+    // Nothing granted: reject the whole batch like a single request
+    if (granted === 0) {
+      const resetSeconds = Math.ceil((resetAt - Date.now()) / 1000);
+      return addRateLimitHeaders(
+        NextResponse.json(
+          {
+            error: "Rate limit exceeded",
+            message: `Too many requests. Please try again in ${resetSeconds} seconds.`,
+            retryAfter: resetSeconds,
+          },
+          { status: 429, headers: { "Retry-After": resetSeconds.toString() } }
+        ),
+        remaining,
+        resetAt,
+        rateLimit.maxRequests
+      );
+    }
+
+    const results = await moderateBatch(messages, {
+      granted,
+      policy,
+      routing: { tenant: getTenantId(request), ...getRoutingOverrides(request) },
+    });
+
+    const succeeded = results.filter((r) => r.status === "ok");
+    const response = NextResponse.json({
+      results,
+      summary: {
+        total: results.length,
+        succeeded: succeeded.length,
+        failed: results.length - succeeded.length,
+        cached: succeeded.filter((r) => r.cached).length,
+        flagged: succeeded.filter((r) => r.result.flagged).length,
+        rateLimited: messages.length - granted,
+      },
+    });
+
+    return addRateLimitHeaders(
+      response,
+      remaining,
+      resetAt,
+      rateLimit.maxRequests
+    );
+  } catch (error) {
+    console.error("Batch moderation API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to moderate batch",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  applyReviewAction,
+  getReviewItem,
+  ReviewActionSchema,
+  ReviewConflictError,
+  ReviewItemNotFoundError,
+} from "@/lib/moderation-review";
+
+type Context = { params: Promise<{ id: string }> };
+
+// One review item (requires ADMIN_API_TOKEN when set):
+//   GET                                              the item
+//   POST { action: "claim", reviewer }               claim it for review
+//   POST { action: "approve", reviewer, note? }      confirm the verdict
+//   POST { action: "overturn", reviewer, verdict?, note? }
+//        replace the verdict (default: not a violation), drop the cached
+//        result and keep the message as a labeled example
+
+function errorResponse(error: unknown) {
+  if (error instanceof ReviewItemNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof ReviewConflictError) {
+    return NextResponse.json(
+      { error: error.message, item: error.item },
+      { status: 409 }
+    );
+  }
+  console.error("Review queue error:", error);
+  return NextResponse.json(
+    {
+      error: "Failed to update review item",
+      message: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: Request, { params }: Context) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    return NextResponse.json(await getReviewItem((await params).id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = ReviewActionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid review action", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const item = await applyReviewAction((await params).id, parsed.data);
+    return NextResponse.json({ success: true, item });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
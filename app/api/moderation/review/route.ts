@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/admin-auth";
+import { listReviewItems, REVIEW_STATUSES } from "@/lib/moderation-review";
+
+const ListQuerySchema = z.object({
+  status: z.enum(REVIEW_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Review queue, oldest first (requires ADMIN_API_TOKEN when set):
+//   GET ?status=pending&limit=50
+export async function GET(request: Request) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const query = ListQuerySchema.safeParse({
+    status: params.get("status") ?? undefined,
+    limit: params.get("limit") ?? undefined,
+  });
+  if (!query.success) {
+    return NextResponse.json(
+      { error: "Invalid query", issues: query.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await listReviewItems(query.data), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error listing review queue:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list review queue",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -314,7 +314,12 @@ async function main() {
     console.log("TEST 5: Fetching Metrics");
     console.log("=".repeat(70));
     try {
-      const metricsResponse = await fetch(`${API_URL}`);
+      // The metrics GET requires the admin token when one is configured
+      const metricsResponse = await fetch(`${API_URL}`, {
+        headers: process.env.ADMIN_API_TOKEN
+          ? { Authorization: `Bearer ${process.env.ADMIN_API_TOKEN}` }
+          : {},
+      });
       const metrics = await metricsResponse.json();
       console.log("📊 Current Metrics:");
       console.log(JSON.stringify(metrics, null, 2));
@@ -27,7 +27,7 @@ async function compareFastVsReasoning() {
   console.log(`First 200 characters: ${fastResult.text.substring(0, 200)}...`);
 
   // Log telemetry
-  updateTelemetry("openai/gpt-4.1", fastResponseTime, true);
+  await updateTelemetry("openai/gpt-4.1", fastResponseTime, true);
 
   // Test reasoning model (gpt-5-mini)
   console.log("\n🧠 Testing reasoning model (gpt-5-mini)...");
@@ -44,7 +44,7 @@ async function compareFastVsReasoning() {
   );
 
   // Log telemetry
-  updateTelemetry("openai/gpt-5-mini", reasoningResponseTime, true);
+  await updateTelemetry("openai/gpt-5-mini", reasoningResponseTime, true);
 
   // Compare the results
   console.log("\n" + "=".repeat(60));
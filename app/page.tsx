@@ -40,6 +40,26 @@ export default function Home() {
               Build an interactive chatbot with the Vercel AI SDK.
             </p>
           </Link>
+
+          <Link
+            href="/admin/router"
+            className="block p-6 bg-white rounded-lg border border-gray-200 hover:border-gray-400 transition-colors shadow-sm hover:shadow-md"
+          >
+            <h2 className="text-2xl font-semibold mb-2 text-gray-900">Model Router Dashboard</h2>
+            <p className="text-gray-600">
+              Watch model usage, cost, latency and routing decisions live.
+            </p>
+          </Link>
+
+          <Link
+            href="/admin/review"
+            className="block p-6 bg-white rounded-lg border border-gray-200 hover:border-gray-400 transition-colors shadow-sm hover:shadow-md"
+          >
+            <h2 className="text-2xl font-semibold mb-2 text-gray-900">Moderation Review Queue</h2>
+            <p className="text-gray-600">
+              Claim flagged content, then approve or overturn the verdict.
+            </p>
+          </Link>
         </div>
 
         <div className="mt-12 pt-8 border-t border-gray-200">
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+
+export const ADMIN_CONFIG = {
+  TOKEN: process.env.ADMIN_API_TOKEN || undefined, // Unset: admin and stats routes are open (local dev)
+};
+
+// Token sent as `Authorization: Bearer <token>` or `x-admin-token`
+function getRequestToken(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim();
+  }
+  return request.headers.get("x-admin-token");
+}
+
+// Constant-time comparison so the token can't be guessed byte by byte
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Admin middleware: returns a 401 response when ADMIN_API_TOKEN is set and
+// the request doesn't carry it, null to continue
+export function requireAdmin(request: Request): NextResponse | null {
+  if (!ADMIN_CONFIG.TOKEN) return null;
+
+  const token = getRequestToken(request);
+  if (token && tokensMatch(token, ADMIN_CONFIG.TOKEN)) return null;
+
+  return NextResponse.json(
+    {
+      error: "Unauthorized",
+      message: "Send the admin token as `Authorization: Bearer <token>`",
+    },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
@@ -0,0 +1,124 @@
+import { computeWindowStats, type CallSample } from "./telemetry-window";
+
+// closed: normal routing; open: removed from candidacy;
+// half_open: cooldown elapsed, a single probe request is let through
+export type BreakerState = "closed" | "open" | "half_open";
+
+// Persisted breaker state for one model
+export interface CircuitBreaker {
+  model: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null; // When the breaker last tripped
+  closedAt: number; // Failure rate only counts calls since this time
+  probeStartedAt: number | null; // In-flight half-open probe
+  lastFailureAt: number | null;
+}
+
+export const BREAKER_CONFIG = {
+  CONSECUTIVE_FAILURES: parseInt(process.env.ROUTER_BREAKER_FAILURES || "5"), // Trip after N failures in a row
+  FAILURE_RATE: parseFloat(process.env.ROUTER_BREAKER_FAILURE_RATE || "0.5"), // ...or this windowed failure rate
+  MIN_SAMPLES: 10, // Calls needed before the failure rate is trusted
+  COOLDOWN_MS: parseInt(process.env.ROUTER_BREAKER_COOLDOWN_MS || "30000"), // Open -> half-open
+  PROBE_TIMEOUT_MS: 60000, // A probe that never reports back frees the slot
+};
+
+export function initialBreaker(model: string, now: number = Date.now()): CircuitBreaker {
+  return {
+    model,
+    state: "closed",
+    consecutiveFailures: 0,
+    openedAt: null,
+    closedAt: now,
+    probeStartedAt: null,
+    lastFailureAt: null,
+  };
+}
+
+// State as seen now: an open breaker whose cooldown has elapsed is half-open
+export function getBreakerState(
+  breaker: CircuitBreaker | undefined,
+  now: number = Date.now()
+): BreakerState {
+  if (!breaker) return "closed";
+  if (
+    breaker.state === "open" &&
+    breaker.openedAt !== null &&
+    now - breaker.openedAt >= BREAKER_CONFIG.COOLDOWN_MS
+  ) {
+    return "half_open";
+  }
+  return breaker.state;
+}
+
+// Reason the breaker keeps a model out of candidacy, or null if it may be tried
+export function getBreakerExclusion(
+  breaker: CircuitBreaker | undefined,
+  now: number = Date.now()
+): string | null {
+  const state = getBreakerState(breaker, now);
+  if (state === "open") return "circuit open";
+  if (
+    state === "half_open" &&
+    breaker?.probeStartedAt &&
+    now - breaker.probeStartedAt < BREAKER_CONFIG.PROBE_TIMEOUT_MS
+  ) {
+    return "circuit half-open, probe in flight";
+  }
+  return null;
+}
+
+// Claim the half-open probe slot before calling a recovering model
+export function startProbe(
+  breaker: CircuitBreaker,
+  now: number = Date.now()
+): CircuitBreaker {
+  if (getBreakerState(breaker, now) !== "half_open") return breaker;
+  return { ...breaker, state: "half_open", probeStartedAt: now };
+}
+
+// Apply a call result to a breaker
+export function recordBreakerResult(
+  breaker: CircuitBreaker,
+  success: boolean,
+  recentCalls: CallSample[],
+  now: number = Date.now()
+): CircuitBreaker {
+  const state = getBreakerState(breaker, now);
+
+  if (success) {
+    if (state === "half_open") {
+      // A successful probe closes the circuit
+      return { ...initialBreaker(breaker.model, now), lastFailureAt: breaker.lastFailureAt };
+    }
+    // Late successes from calls started before the trip don't close it early
+    return state === "open" ? breaker : { ...breaker, consecutiveFailures: 0 };
+  }
+
+  const next: CircuitBreaker = {
+    ...breaker,
+    consecutiveFailures: breaker.consecutiveFailures + 1,
+    lastFailureAt: now,
+  };
+
+  if (state === "open") return next;
+
+  // A failed probe re-opens the circuit for another cooldown
+  if (state === "half_open") {
+    return { ...next, state: "open", openedAt: now, probeStartedAt: null };
+  }
+
+  const sinceClosed = computeWindowStats(
+    recentCalls.filter((call) => call.timestamp >= breaker.closedAt),
+    now
+  );
+  const rateTripped =
+    sinceClosed !== null &&
+    sinceClosed.sampleCount >= BREAKER_CONFIG.MIN_SAMPLES &&
+    sinceClosed.errorRate >= BREAKER_CONFIG.FAILURE_RATE;
+
+  if (next.consecutiveFailures >= BREAKER_CONFIG.CONSECUTIVE_FAILURES || rateTripped) {
+    return { ...next, state: "open", openedAt: now, probeStartedAt: null };
+  }
+  return next;
+}
@@ -0,0 +1,168 @@
+// In-process metrics registry rendered in OpenMetrics text format by
+// /api/metrics. Metrics are registered once by name; registering the same
+// name again returns the existing metric.
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+  get(labels?: Labels): number;
+  values(): Array<{ labels: Labels; value: number }>;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+  get(labels?: Labels): { count: number; sum: number };
+}
+
+interface Series {
+  labels: Labels;
+  value: number; // Counter value, or histogram sum
+  count: number; // Histogram observations
+  buckets: number[]; // Histogram observations per bucket (not cumulative)
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  buckets: number[]; // Histogram upper bounds
+  series: Map<string, Series>;
+}
+
+// Default histogram bounds, in seconds
+export const LATENCY_BUCKETS_SECONDS = [
+  0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+const metrics: Map<string, Metric> = new Map();
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]])
+  );
+}
+
+function register(
+  name: string,
+  help: string,
+  type: Metric["type"],
+  buckets: number[] = []
+): Metric {
+  const existing = metrics.get(name);
+  if (existing) {
+    if (existing.type !== type) {
+      throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+    }
+    return existing;
+  }
+  const metric: Metric = { name, help, type, buckets, series: new Map() };
+  metrics.set(name, metric);
+  return metric;
+}
+
+function getSeries(metric: Metric, labels: Labels): Series {
+  const key = labelKey(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = {
+      labels,
+      value: 0,
+      count: 0,
+      buckets: new Array(metric.buckets.length).fill(0),
+    };
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+// Monotonic counter; exposed as `<name>_total`
+export function counter(name: string, help: string): Counter {
+  const metric = register(name, help, "counter");
+  return {
+    inc(labels = {}, value = 1) {
+      getSeries(metric, labels).value += value;
+    },
+    get(labels = {}) {
+      return metric.series.get(labelKey(labels))?.value ?? 0;
+    },
+    values() {
+      return Array.from(metric.series.values()).map(({ labels, value }) => ({
+        labels,
+        value,
+      }));
+    },
+  };
+}
+
+// Histogram with `le` buckets, `_count` and `_sum`
+export function histogram(
+  name: string,
+  help: string,
+  buckets: number[] = LATENCY_BUCKETS_SECONDS
+): Histogram {
+  const metric = register(name, help, "histogram", buckets);
+  return {
+    observe(value, labels = {}) {
+      const series = getSeries(metric, labels);
+      series.value += value;
+      const index = metric.buckets.findIndex((bound) => value <= bound);
+      if (index !== -1) series.buckets[index]++;
+      series.count++;
+    },
+    get(labels = {}) {
+      const series = metric.series.get(labelKey(labels));
+      return {
+        count: series?.count ?? 0,
+        sum: series?.value ?? 0,
+      };
+    },
+  };
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// All registered metrics in OpenMetrics text format
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics.values()) {
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    for (const series of metric.series.values()) {
+      if (metric.type === "counter") {
+        lines.push(`${metric.name}_total${formatLabels(series.labels)} ${series.value}`);
+        continue;
+      }
+      let cumulative = 0;
+      metric.buckets.forEach((bound, i) => {
+        cumulative += series.buckets[i];
+        lines.push(
+          `${metric.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${cumulative}`
+        );
+      });
+      lines.push(
+        `${metric.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`
+      );
+      lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+      lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${series.value}`);
+    }
+  }
+  lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
+// Zero every metric (tests)
+export function resetMetrics(): void {
+  metrics.forEach((metric) => metric.series.clear());
+}
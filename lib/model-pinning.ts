@@ -0,0 +1,78 @@
+import { getTelemetryStore } from "./telemetry-store";
+
+// Model pinned to an affinity key (session id, job id) by its first selection
+export interface AffinityPin {
+  model: string;
+  pinnedAt: number;
+  expiresAt: number;
+}
+
+export const PINNING_CONFIG = {
+  AFFINITY_TTL_MS: parseInt(process.env.ROUTER_AFFINITY_TTL_MS || "1800000"), // 30 minutes
+  FORCE_MODEL: process.env.ROUTER_FORCE_MODEL || undefined, // Force every decision to this model
+  ALLOW_FORCE_HEADER: process.env.ROUTER_ALLOW_FORCE_HEADER === "true", // Honor x-router-force-model
+};
+
+const AFFINITY_KEY = "routing-affinity";
+
+// Unexpired pin for an affinity key
+export async function getAffinityPin(
+  key: string,
+  now: number = Date.now()
+): Promise<AffinityPin | undefined> {
+  try {
+    const pins =
+      (await getTelemetryStore().get<Record<string, AffinityPin>>(AFFINITY_KEY)) ||
+      {};
+    const pin = pins[key];
+    return pin && pin.expiresAt > now ? pin : undefined;
+  } catch (error) {
+    console.warn("Failed to load routing affinity:", error);
+  }
+  return undefined;
+}
+
+// Pin a model to an affinity key for a TTL, dropping expired pins
+export async function pinAffinity(
+  key: string,
+  model: string,
+  ttlMs: number = PINNING_CONFIG.AFFINITY_TTL_MS,
+  now: number = Date.now()
+): Promise<AffinityPin> {
+  const pin = { model, pinnedAt: now, expiresAt: now + ttlMs };
+  try {
+    await getTelemetryStore().update<Record<string, AffinityPin>>(
+      AFFINITY_KEY,
+      {},
+      (pins) => {
+        const active = Object.fromEntries(
+          Object.entries(pins).filter(([, entry]) => entry.expiresAt > now)
+        );
+        active[key] = pin;
+        return active;
+      }
+    );
+  } catch (error) {
+    console.warn("Failed to save routing affinity:", error);
+  }
+  return pin;
+}
+
+// Forced model for a call: the config's, then ROUTER_FORCE_MODEL
+export function getForcedModel(configured?: string): string | undefined {
+  return configured || PINNING_CONFIG.FORCE_MODEL;
+}
+
+// Routing overrides sent by callers as headers. The force header is for
+// debugging and only honored when ROUTER_ALLOW_FORCE_HEADER=true.
+export function getRoutingOverrides(request: Request): {
+  affinityKey?: string;
+  forceModel?: string;
+} {
+  return {
+    affinityKey: request.headers.get("x-affinity-key") || undefined,
+    forceModel: PINNING_CONFIG.ALLOW_FORCE_HEADER
+      ? request.headers.get("x-router-force-model") || undefined
+      : undefined,
+  };
+}
@@ -0,0 +1,242 @@
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+
+// Model capability tiers
+export enum CapabilityTier {
+  BASIC = "basic", // Simple tasks, fast responses
+  STANDARD = "standard", // Most common tasks
+  ADVANCED = "advanced", // Complex reasoning, structured output
+  REASONING = "reasoning", // Deep reasoning, multi-step problems
+}
+
+// Model definition schema (used for code and config-file registration)
+export const ModelDefinitionSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .describe("Gateway model id, e.g. 'openai/gpt-4.1' or 'anthropic/claude-sonnet-4'"),
+  capabilityTier: z.nativeEnum(CapabilityTier),
+  baseCostPer1kTokens: z
+    .number()
+    .nonnegative()
+    .describe("Approximate cost per 1k tokens (input + output average), used for scoring"),
+  inputCostPer1kTokens: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Price per 1k input tokens in USD (defaults to baseCostPer1kTokens)"),
+  outputCostPer1kTokens: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Price per 1k output tokens in USD (defaults to baseCostPer1kTokens)"),
+  maxLatencyMs: z
+    .number()
+    .positive()
+    .describe("Typical max latency, used as the latency ceiling before telemetry exists"),
+  supportsStructuredOutput: z.boolean().default(true),
+  supportsStreaming: z.boolean().default(true),
+  capabilities: z
+    .array(z.string())
+    .default([])
+    .describe("Additional capabilities (e.g., 'vision', 'tool_calling')"),
+  contextWindow: z
+    .number()
+    .int()
+    .positive()
+    .default(128000)
+    .describe("Maximum context window in tokens"),
+  retired: z
+    .boolean()
+    .default(false)
+    .describe("Retired models are kept for telemetry but never selected"),
+});
+
+export type ModelDefinition = z.infer<typeof ModelDefinitionSchema>;
+export type ModelDefinitionInput = z.input<typeof ModelDefinitionSchema>;
+
+// Config file format: { "models": [ ...ModelDefinition ] }
+const RegistryFileSchema = z.object({
+  models: z.array(ModelDefinitionSchema),
+});
+
+// Built-in models (from provider docs)
+const DEFAULT_MODELS: ModelDefinitionInput[] = [
+  {
+    id: "openai/gpt-4.1",
+    capabilityTier: CapabilityTier.STANDARD,
+    baseCostPer1kTokens: 0.03, // Approximate
+    inputCostPer1kTokens: 0.002,
+    outputCostPer1kTokens: 0.008,
+    maxLatencyMs: 3000,
+    supportsStructuredOutput: true,
+    supportsStreaming: true,
+    contextWindow: 1047576,
+  },
+  {
+    id: "openai/gpt-5-mini",
+    capabilityTier: CapabilityTier.REASONING,
+    baseCostPer1kTokens: 0.05, // Higher cost for reasoning models
+    inputCostPer1kTokens: 0.00025,
+    outputCostPer1kTokens: 0.002,
+    maxLatencyMs: 10000, // Reasoning takes longer
+    supportsStructuredOutput: true,
+    supportsStreaming: true,
+    contextWindow: 400000,
+  },
+  {
+    id: "openai/gpt-4o-mini",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.01, // Cheaper, faster
+    inputCostPer1kTokens: 0.00015,
+    outputCostPer1kTokens: 0.0006,
+    maxLatencyMs: 2000,
+    supportsStructuredOutput: true,
+    supportsStreaming: true,
+    contextWindow: 128000,
+  },
+];
+
+const registry: Map<string, ModelDefinition> = new Map();
+
+// Register (or replace) a model definition
+export function registerModel(definition: ModelDefinitionInput): ModelDefinition {
+  const parsed = ModelDefinitionSchema.parse(definition);
+  registry.set(parsed.id, parsed);
+  return parsed;
+}
+
+// Update fields of an already registered model
+export function updateModel(
+  id: string,
+  changes: Partial<Omit<ModelDefinitionInput, "id">>
+): ModelDefinition {
+  const existing = registry.get(id);
+  if (!existing) {
+    throw new Error(`Model not registered: ${id}`);
+  }
+  return registerModel({ ...existing, ...changes, id });
+}
+
+// Retire a model: it stays resolvable for telemetry but is no longer routed to
+export function retireModel(id: string): void {
+  updateModel(id, { retired: true });
+}
+
+// Remove a model from the registry entirely
+export function unregisterModel(id: string): boolean {
+  return registry.delete(id);
+}
+
+// Look up a model definition (including retired models)
+export function getModel(id: string): ModelDefinition | undefined {
+  return registry.get(id);
+}
+
+// List registered models (active only unless includeRetired is set)
+export function listModels(
+  options: { includeRetired?: boolean } = {}
+): ModelDefinition[] {
+  return Array.from(registry.values()).filter(
+    (model) => options.includeRetired || !model.retired
+  );
+}
+
+// All capabilities a model declares, including the structured output/streaming flags
+export function getModelCapabilities(definition: ModelDefinition): string[] {
+  const capabilities = new Set(definition.capabilities);
+  if (definition.supportsStructuredOutput) capabilities.add("structured_output");
+  if (definition.supportsStreaming) capabilities.add("streaming");
+  return Array.from(capabilities);
+}
+
+// Token usage as reported by the AI SDK (`usage` from generateText/generateObject)
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Actual cost in USD of a call, from its token usage and the model's prices
+export function calculateCost(
+  definition: Pick<
+    ModelDefinition,
+    "baseCostPer1kTokens" | "inputCostPer1kTokens" | "outputCostPer1kTokens"
+  >,
+  usage: TokenUsage
+): number {
+  const inputPrice =
+    definition.inputCostPer1kTokens ?? definition.baseCostPer1kTokens;
+  const outputPrice =
+    definition.outputCostPer1kTokens ?? definition.baseCostPer1kTokens;
+  return (
+    ((usage.inputTokens ?? 0) / 1000) * inputPrice +
+    ((usage.outputTokens ?? 0) / 1000) * outputPrice
+  );
+}
+
+// Context window budgeting for prompts and chunkers
+export const CONTEXT_CONFIG = {
+  CHARS_PER_TOKEN: 4, // Rough approximation: 1 token ≈ 4 characters
+  RESERVED_TOKENS: 4096, // Left free for instructions and the response
+  CHUNK_CONTEXT_SHARE: parseFloat(process.env.ROUTER_CHUNK_CONTEXT_SHARE || "0.25"), // Share of the usable window per chunk
+  MAX_CHUNK_TOKENS: parseInt(process.env.ROUTER_MAX_CHUNK_TOKENS || "8000"), // Upper bound per chunk, however large the window
+};
+
+// Estimate token count of a text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CONTEXT_CONFIG.CHARS_PER_TOKEN);
+}
+
+// Input tokens a model can accept with room left for instructions and the response
+export function getUsableContextTokens(
+  definition: Pick<ModelDefinition, "contextWindow">
+): number {
+  return Math.max(0, definition.contextWindow - CONTEXT_CONFIG.RESERVED_TOKENS);
+}
+
+// Safe chunk size (tokens) for a model, for map-reduce style chunkers. Small
+// windows shrink chunks; large ones are capped at MAX_CHUNK_TOKENS, since
+// long chunks cost more per retry and lose detail in the summary.
+export function getSafeChunkTokens(id: string): number {
+  const definition = getModel(id);
+  if (!definition) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+  return Math.min(
+    Math.floor(getUsableContextTokens(definition) * CONTEXT_CONFIG.CHUNK_CONTEXT_SHARE),
+    CONTEXT_CONFIG.MAX_CHUNK_TOKENS
+  );
+}
+
+// Load model definitions from a JSON config file and register them
+export function loadModelRegistry(filePath: string): ModelDefinition[] {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const file = RegistryFileSchema.parse(
+    JSON.parse(fs.readFileSync(resolved, "utf-8"))
+  );
+  return file.models.map((model) => registerModel(model));
+}
+
+// Reset the registry to the built-in defaults
+export function resetModelRegistry(): void {
+  registry.clear();
+  DEFAULT_MODELS.forEach((model) => registerModel(model));
+}
+
+function initRegistry() {
+  resetModelRegistry();
+
+  const registryPath = process.env.MODEL_REGISTRY_PATH;
+  if (registryPath) {
+    try {
+      const loaded = loadModelRegistry(registryPath);
+      console.log(`✅ Loaded ${loaded.length} models from ${registryPath}`);
+    } catch (error) {
+      console.warn(`Failed to load model registry from ${registryPath}:`, error);
+    }
+  }
+}
+
+// Initialize on module load
+initRegistry();
@@ -2,10 +2,10 @@ import dotenvFlow from "dotenv-flow";
 dotenvFlow.config();
 import { generateText } from "ai";
 import {
-  selectModel,
-  updateTelemetry,
+  runWithRouter,
   getRoutingStats,
   RouterConfigSchema,
+  FallbackExhaustedError,
 } from "./model-router";
 
 // Demo workloads
@@ -73,31 +73,29 @@ async function runDemo() {
     console.log(`Priority: ${workload.config.priority}`);
     console.log(`Complexity: ${workload.config.complexity}`);
 
-    // Select model using router
-    const selectedModel = selectModel(workload.config);
-    console.log(`\n🎯 Selected Model: ${selectedModel}`);
-
-    // Execute the request
+    // Execute the request through the router (falls back on failure)
     console.log(`\n⏳ Executing request...`);
-    const start = Date.now();
     try {
-      const result = await generateText({
-        model: selectedModel,
-        prompt: workload.prompt,
-      });
-      const end = Date.now();
-      const latency = end - start;
-
-      // Update telemetry
-      updateTelemetry(selectedModel, latency, true);
+      const { result, model, decision } = await runWithRouter(
+        workload.config,
+        (model, { signal }) =>
+          generateText({ model, prompt: workload.prompt, abortSignal: signal })
+      );
+      const attempts = decision.attempts || [];
+      const latency = attempts[attempts.length - 1].latencyMs;
 
+      console.log(`\n🎯 Selected Model: ${model}`);
+      if (attempts.length > 1) {
+        console.log(`↪️  Fell back after ${attempts.length - 1} failed attempt(s)`);
+      }
       console.log(`✅ Success! Latency: ${latency}ms`);
       console.log(`📝 Response preview: ${result.text.substring(0, 150)}...`);
-    } catch (error: any) {
-      const end = Date.now();
-      const latency = end - start;
-      updateTelemetry(selectedModel, latency, false);
-      console.log(`❌ Error: ${error.message}`);
+    } catch (error) {
+      if (error instanceof FallbackExhaustedError) {
+        console.log(`❌ All models failed: ${error.message}`);
+      } else {
+        console.log(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      }
     }
   }
 
@@ -106,7 +104,7 @@ async function runDemo() {
   console.log("📊 ROUTING STATISTICS");
   console.log("=".repeat(70));
 
-  const stats = getRoutingStats();
+  const stats = await getRoutingStats();
   console.log(`\nTotal Routing Decisions: ${stats.totalDecisions}`);
 
   console.log(`\n📈 Model Usage:`);
@@ -126,8 +124,8 @@ async function runDemo() {
     console.log(`   ${model}: ${latency.toFixed(0)}ms`);
   });
 
-  console.log(`\n💰 Estimated Cost by Model:`);
-  Object.entries(stats.estimatedCostByModel).forEach(([model, cost]) => {
+  console.log(`\n💰 Actual Cost by Model:`);
+  Object.entries(stats.costByModel).forEach(([model, cost]) => {
     console.log(`   ${model}: $${cost.toFixed(4)}`);
   });
 
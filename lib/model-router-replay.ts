@@ -0,0 +1,128 @@
+import dotenvFlow from "dotenv-flow";
+dotenvFlow.config();
+import fs from "fs";
+import {
+  loadTelemetry,
+  loadRoutingHistory,
+  PriorityWeightOverridesSchema,
+  RouterConfigSchema,
+  type PriorityWeightOverrides,
+} from "./model-router";
+import {
+  historyToRequests,
+  loadWorkloadFile,
+  replayRouting,
+  type ReplayRequest,
+  type ReplaySummary,
+  type ReplayVariant,
+} from "./routing-replay";
+
+// Replay recorded routing decisions (or a workload file) against alternative
+// weights/strategies, using stored telemetry only (no model calls).
+//
+//   pnpm model-router:replay [--workload file.json] [--strategy name]
+//     [--priority cost|quality|speed|balanced] [--weights '{"balanced":{...}}' | weights.json]
+function parseArgs(argv: string[]) {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+// Weights as inline JSON or a path to a JSON file. Partial overrides are
+// merged over the active policy's weights.
+function parseWeights(value: string): PriorityWeightOverrides {
+  const json = fs.existsSync(value) ? fs.readFileSync(value, "utf-8") : value;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error(`--weights is neither a JSON file nor valid JSON: ${value}`);
+  }
+  const parsed = PriorityWeightOverridesSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid --weights: ${issues}`);
+  }
+  return parsed.data;
+}
+
+function printSummary(summary: ReplaySummary) {
+  console.log(`\n📋 ${summary.variant}`);
+  console.log(`   Requests: ${summary.requests} (${summary.unroutable} unroutable)`);
+  console.log(`   Projected cost: $${summary.projectedCostUsd.toFixed(4)}`);
+  console.log(`   Avg latency: ${summary.avgLatencyMs.toFixed(0)}ms`);
+  console.log(
+    `   Tier mismatches: ${summary.tierMismatches.insufficient} insufficient, ${summary.tierMismatches.overkill} overkill`
+  );
+  if (summary.explorations > 0) {
+    console.log(`   Exploration picks: ${summary.explorations}`);
+  }
+  Object.entries(summary.modelUsage)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([model, count]) => {
+      console.log(`   ${model}: ${count}`);
+    });
+}
+
+function signed(value: number, digits: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+async function runReplay() {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log("🔁 Model Router Replay\n");
+  console.log("=".repeat(70));
+
+  let requests: ReplayRequest[];
+  if (args.workload) {
+    requests = loadWorkloadFile(args.workload);
+    console.log(`Source: workload file ${args.workload}`);
+  } else {
+    requests = historyToRequests(await loadRoutingHistory());
+    console.log(`Source: routing history (${requests.length} decisions)`);
+  }
+  if (requests.length === 0) {
+    console.log("\nNothing to replay.");
+    return;
+  }
+
+  const candidate: ReplayVariant = {
+    name: "candidate",
+    weights: args.weights ? parseWeights(args.weights) : undefined,
+    strategy: args.strategy,
+    priority: args.priority
+      ? RouterConfigSchema.shape.priority.parse(args.priority)
+      : undefined,
+  };
+  // History is compared with what was actually picked, workloads with the current scoring
+  const baseline = args.workload
+    ? { name: "current", strategy: "heuristic" }
+    : "recorded";
+
+  const telemetry = await loadTelemetry();
+  const report = replayRouting(requests, telemetry, baseline, candidate);
+
+  printSummary(report.baseline);
+  printSummary(report.candidate);
+
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 DIFFERENCE (candidate - baseline)");
+  console.log("=".repeat(70));
+  console.log(`   Changed decisions: ${report.changedDecisions}`);
+  console.log(`   Projected cost: ${signed(report.diff.projectedCostUsd, 4)} USD`);
+  console.log(`   Avg latency: ${signed(report.diff.avgLatencyMs, 0)}ms`);
+  console.log(`   Tier mismatches: ${signed(report.diff.tierMismatches, 0)}`);
+}
+
+runReplay().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,4 +1,87 @@
-import { selectModel, RouterConfigSchema, updateTelemetry, getRoutingStats } from "./model-router";
+import {
+  selectModel,
+  RouterConfigSchema,
+  updateTelemetry,
+  getRoutingStats,
+  NoEligibleModelError,
+  runWithRouter,
+  FallbackExhaustedError,
+  BudgetExceededError,
+  explainRouting,
+  getSafeChunkTokens,
+  loadRoutingHistory,
+  loadTelemetry,
+  recordQualityFeedback,
+  DuplicateFeedbackError,
+  UnknownDecisionError,
+  getTimeSeries,
+  flushTimeSeries,
+  TimeSeriesRangeError,
+  exportTelemetrySnapshot,
+  importTelemetrySnapshot,
+  pruneTelemetry,
+  resetTelemetry,
+  TelemetrySnapshotSchema,
+  simulateRouting,
+} from "./model-router";
+import { ADMIN_CONFIG, requireAdmin } from "./admin-auth";
+import { historyToRequests, replayRouting } from "./routing-replay";
+import {
+  CapabilityTier,
+  CONTEXT_CONFIG,
+  registerModel,
+  retireModel,
+  unregisterModel,
+  getModel,
+} from "./model-registry";
+import {
+  FileTelemetryStore,
+  MemoryTelemetryStore,
+  getTelemetryStore,
+  setTelemetryStore,
+  type TelemetryStore,
+} from "./telemetry-store";
+import { computeWindowStats, WINDOW_CONFIG } from "./telemetry-window";
+import { resetHedgeBudget } from "./request-hedging";
+import { histogram, renderMetrics } from "./metrics-registry";
+import {
+  BREAKER_CONFIG,
+  getBreakerState,
+  initialBreaker,
+  recordBreakerResult,
+  startProbe,
+  getBreakerExclusion,
+} from "./circuit-breaker";
+import { getTenantId, setTenantBudget, removeTenantBudget } from "./tenant-budgets";
+import { NextRequest } from "next/server";
+import { createEpsilonGreedyStrategy, registerStrategy } from "./routing-strategies";
+import {
+  loadRoutingPolicy,
+  PriorityWeightOverridesSchema,
+  reloadRoutingPolicy,
+  resetRoutingPolicy,
+  setRoutingPolicy,
+} from "./routing-policy";
+import { fork } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Shared tally; main() prints it and fails the run on any failed check
+const results = { passed: 0, failed: 0 };
+const failedChecks: string[] = [];
+
+function check(name: string, condition: boolean): boolean {
+  if (condition) {
+    results.passed++;
+    console.log("   ✅ PASS");
+  } else {
+    results.failed++;
+    failedChecks.push(name);
+    console.log(`   ❌ FAIL - ${name}`);
+  }
+  return condition;
+}
 
 // Test cases for different workloads
 async function runTests() {
@@ -6,10 +89,10 @@ async function runTests() {
   console.log("=".repeat(70));
 
   // Initialize telemetry with some test data
-  updateTelemetry("openai/gpt-4.1", 2500, true);
-  updateTelemetry("openai/gpt-4.1", 2300, true);
-  updateTelemetry("openai/gpt-5-mini", 8000, true);
-  updateTelemetry("openai/gpt-4o-mini", 1500, true);
+  await updateTelemetry("openai/gpt-4.1", 2500, true);
+  await updateTelemetry("openai/gpt-4.1", 2300, true);
+  await updateTelemetry("openai/gpt-5-mini", 8000, true);
+  await updateTelemetry("openai/gpt-4o-mini", 1500, true);
 
   const testCases = [
     {
@@ -62,24 +145,15 @@ async function runTests() {
     },
   ];
 
-  let passed = 0;
-  let failed = 0;
-
   for (const testCase of testCases) {
     console.log(`\n📋 Test: ${testCase.name}`);
     console.log(`   Expected: ${testCase.expectedBehavior}`);
     
-    const selectedModel = selectModel(testCase.config);
+    const { model: selectedModel } = await selectModel(testCase.config);
     console.log(`   ✅ Selected: ${selectedModel}`);
     
     // Basic validation
-    if (selectedModel && selectedModel.startsWith("openai/")) {
-      passed++;
-      console.log(`   ✅ PASS`);
-    } else {
-      failed++;
-      console.log(`   ❌ FAIL - Invalid model selected`);
-    }
+    check(`${testCase.name} selects a valid model`, !!selectedModel?.startsWith("openai/"));
   }
 
   // Test statistics
@@ -87,20 +161,9 @@ async function runTests() {
   console.log("📊 Test Statistics");
   console.log("=".repeat(70));
   
-  const stats = getRoutingStats();
+  const stats = await getRoutingStats();
   console.log(`\nTotal routing decisions: ${stats.totalDecisions}`);
   console.log(`Models used: ${Object.keys(stats.modelUsage).join(", ")}`);
-  
-  console.log("\n" + "=".repeat(70));
-  console.log(`✅ Tests Passed: ${passed}`);
-  console.log(`❌ Tests Failed: ${failed}`);
-  console.log(`📊 Success Rate: ${((passed / (passed + failed)) * 100).toFixed(1)}%`);
-  
-  if (failed === 0) {
-    console.log("\n🎉 All tests passed!");
-  } else {
-    console.log("\n⚠️  Some tests failed. Review the output above.");
-  }
 }
 
 // Run workload simulation tests
@@ -118,18 +181,18 @@ async function runWorkloadSimulation() {
 
   console.log("\nSimulating workloads...");
   
-  workloads.forEach((workload) => {
+  for (const workload of workloads) {
     for (let i = 0; i < workload.count; i++) {
       const config = RouterConfigSchema.parse({
         task: workload.task,
         priority: workload.priority,
       });
-      selectModel(config);
+      await selectModel(config);
     }
     console.log(`   ✅ Simulated ${workload.count} ${workload.task} tasks (${workload.priority} priority)`);
-  });
+  }
 
-  const finalStats = getRoutingStats();
+  const finalStats = await getRoutingStats();
   console.log(`\n📊 After simulation:`);
   console.log(`   Total decisions: ${finalStats.totalDecisions}`);
   console.log(`   Model distribution:`);
@@ -139,12 +202,1058 @@ async function runWorkloadSimulation() {
   });
 }
 
+// Registry tests: runtime registration and retirement
+async function runRegistryTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🗂️  Model Registry");
+  console.log("=".repeat(70));
+
+  const config = RouterConfigSchema.parse({
+    task: "classification",
+    priority: "cost",
+    complexity: "low",
+  });
+
+  // A very cheap basic model should win cost-optimized classification
+  registerModel({
+    id: "local/test-tiny",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.0001,
+    maxLatencyMs: 1000,
+  });
+  const { model: registered } = await selectModel(config);
+  console.log(`\n📋 Registered local/test-tiny, selected: ${registered}`);
+  check("registered model selected", registered === "local/test-tiny");
+
+  // Once retired it must never be selected, but stays resolvable
+  retireModel("local/test-tiny");
+  const { model: afterRetire } = await selectModel(config);
+  console.log(`\n📋 Retired local/test-tiny, selected: ${afterRetire}`);
+  check(
+    "retired model not selected",
+    afterRetire !== "local/test-tiny" && getModel("local/test-tiny")?.retired === true
+  );
+
+  unregisterModel("local/test-tiny");
+
+  // A free model must not score Infinity
+  registerModel({
+    id: "local/test-free",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0,
+    maxLatencyMs: 1000,
+  });
+  const freeDecision = await explainRouting(config);
+  const freeScore = freeDecision.breakdown?.total;
+  console.log(`\n📋 Zero-cost model: selected ${freeDecision.selectedModel}, score ${freeScore}`);
+  check(
+    "zero-cost model scores finite",
+    freeDecision.selectedModel === "local/test-free" && Number.isFinite(freeScore)
+  );
+
+  unregisterModel("local/test-free");
+}
+
+// Capability tests: requiredCapabilities is a hard filter
+async function runCapabilityTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🧩 Required Capabilities");
+  console.log("=".repeat(70));
+
+  const config = RouterConfigSchema.parse({
+    task: "classification",
+    priority: "speed",
+    requiredCapabilities: ["structured_output", "vision"],
+  });
+
+  // No built-in model declares "vision"
+  try {
+    await selectModel(config);
+    console.log("\n📋 No vision model registered: expected an error");
+    check("no vision model registered throws NoEligibleModelError", false);
+  } catch (error) {
+    console.log(`\n📋 No vision model registered: ${error instanceof Error ? error.name : error}`);
+    check("no vision model registered throws NoEligibleModelError", error instanceof NoEligibleModelError);
+  }
+
+  registerModel({
+    id: "local/test-vision",
+    capabilityTier: CapabilityTier.STANDARD,
+    baseCostPer1kTokens: 0.02,
+    maxLatencyMs: 3000,
+    capabilities: ["vision"],
+  });
+  const { model: selected } = await selectModel(config);
+  const decision = (await getRoutingStats()).recentDecisions.at(-1);
+  const excludedCount =
+    decision?.alternatives.filter((alt) => alt.excluded).length ?? 0;
+  console.log(`\n📋 Vision model registered, selected: ${selected}`);
+  check(
+    "vision model selected",
+    selected === "local/test-vision" && excludedCount === 3
+  );
+
+  unregisterModel("local/test-vision");
+}
+
+// Fallback tests: runWithRouter walks the ranked chain on errors and timeouts
+async function runFallbackTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("↪️  Fallback Chain");
+  console.log("=".repeat(70));
+
+  const config = RouterConfigSchema.parse({
+    task: "summarization",
+    priority: "balanced",
+  });
+
+  // First model errors, second model times out, third succeeds
+  const { model, decision } = await runWithRouter(
+    config,
+    async (candidate, { attempt }) => {
+      if (attempt === 0) throw new Error("simulated provider outage");
+      if (attempt === 1) return new Promise<string>(() => {});
+      return `ok from ${candidate}`;
+    },
+    { timeoutMs: 50 }
+  );
+  const attempts = decision.attempts || [];
+  console.log(
+    `\n📋 Attempts: ${attempts
+      .map((a) => `${a.model}=${a.success ? "ok" : a.error}`)
+      .join(", ")}`
+  );
+  check(
+    "fallback attempts",
+    attempts.length === 3 &&
+      attempts[2].success &&
+      decision.selectedModel === model
+  );
+
+  // Every model fails
+  try {
+    await runWithRouter(config, async () => {
+      throw new Error("simulated failure");
+    });
+    console.log("\n📋 All models failing: expected an error");
+    check("all models failing throws FallbackExhaustedError", false);
+  } catch (error) {
+    console.log(`\n📋 All models failing: ${error instanceof Error ? error.name : error}`);
+    check("all models failing throws FallbackExhaustedError", error instanceof FallbackExhaustedError);
+  }
+}
+
+// Cost tests: actual spend from token usage, per model, task and day
+async function runCostTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("💰 Token Cost Accounting");
+  console.log("=".repeat(70));
+
+  registerModel({
+    id: "local/test-priced",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.01,
+    inputCostPer1kTokens: 0.001,
+    outputCostPer1kTokens: 0.004,
+    maxLatencyMs: 1000,
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const costOf = async () => {
+    const stats = await getRoutingStats();
+    const entry = stats.telemetry.find((t) => t.model === "local/test-priced");
+    return {
+      model: stats.costByModel["local/test-priced"] ?? 0,
+      task: entry?.costByTask.classification ?? 0,
+      day: entry?.costByDay[today] ?? 0,
+    };
+  };
+  const before = await costOf();
+
+  // 2000 input tokens * $0.001/1k + 500 output tokens * $0.004/1k = $0.004
+  await updateTelemetry("local/test-priced", 300, true, {
+    usage: { inputTokens: 2000, outputTokens: 500 },
+    task: "classification",
+  });
+
+  const after = await costOf();
+  const recorded = after.model - before.model;
+  console.log(`\n📋 Recorded cost: $${recorded.toFixed(4)}`);
+  check(
+    "recorded cost",
+    Math.abs(recorded - 0.004) < 1e-9 &&
+      Math.abs(after.task - before.task - 0.004) < 1e-9 &&
+      Math.abs(after.day - before.day - 0.004) < 1e-9
+  );
+
+  unregisterModel("local/test-priced");
+}
+
+// Store tests: concurrent updates must not be lost
+async function runStoreTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🗄️  Telemetry Stores");
+  console.log("=".repeat(70));
+
+  const original = getTelemetryStore();
+  const stores: Array<[string, TelemetryStore]> = [
+    ["memory", new MemoryTelemetryStore()],
+    [
+      "file",
+      new FileTelemetryStore(
+        path.join(os.tmpdir(), `router-store-test-${process.pid}`)
+      ),
+    ],
+  ];
+
+  for (const [name, store] of stores) {
+    setTelemetryStore(store);
+    await Promise.all(
+      Array.from({ length: 50 }, () =>
+        updateTelemetry("openai/gpt-4.1", 1000, true)
+      )
+    );
+    const entry = (await getRoutingStats()).telemetry.find(
+      (t) => t.model === "openai/gpt-4.1"
+    );
+    console.log(`\n📋 50 concurrent updates (${name}): callCount=${entry?.callCount}`);
+    check(`concurrent updates (${name})`, entry?.callCount === 50);
+  }
+
+  // Crashed owners' locks are taken over, and a holder whose lock was taken
+  // over doesn't delete the new holder's lock on release
+  const dir = path.join(os.tmpdir(), `router-lock-test-${process.pid}`);
+  const fileStore = new FileTelemetryStore(dir);
+  const lockDir = path.join(dir, ".locked.json.lock");
+  const writeLock = (token: string, owner: object) => {
+    fs.mkdirSync(lockDir, { recursive: true });
+    fs.writeFileSync(path.join(lockDir, token), JSON.stringify(owner));
+  };
+  writeLock("other-host", {
+    pid: 1,
+    host: "crashed-host",
+    instance: "old",
+    acquiredAt: Date.now() - 60 * 1000,
+  });
+  await fileStore.update<number>("locked", 0, (n) => n + 1);
+  writeLock("restarted", {
+    pid: process.pid, // Same pid and host as a process that restarted
+    host: os.hostname(),
+    instance: "before-restart",
+    acquiredAt: Date.now(),
+  });
+  await fileStore.update<number>("locked", 0, (n) => n + 1);
+  await fileStore.update<number>("locked", 0, (n) => {
+    // As if this lock was taken over by another holder
+    fs.rmSync(lockDir, { recursive: true });
+    writeLock("newer-holder", { pid: 1, host: "other", instance: "new", acquiredAt: Date.now() });
+    return n + 1;
+  });
+  const lockHolder = fs.existsSync(lockDir) ? fs.readdirSync(lockDir).join() : null;
+  console.log(
+    `\n📋 Crashed locks taken over: ${await fileStore.get("locked")} updates, lock left for: ${lockHolder}`
+  );
+  check(
+    "file lock takeover and compare-and-delete",
+    (await fileStore.get<number>("locked")) === 3 && lockHolder === "newer-holder"
+  );
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  // Several processes race for the lock, and for a crashed owner's lock
+  const sharedDir = path.join(os.tmpdir(), `router-lock-procs-${process.pid}`);
+  fs.mkdirSync(path.join(sharedDir, ".contended.json.lock"), { recursive: true });
+  fs.writeFileSync(
+    path.join(sharedDir, ".contended.json.lock", "crashed"),
+    JSON.stringify({ pid: 1, host: "crashed-host", instance: "old", acquiredAt: 0 })
+  );
+  const workers = 4;
+  const updatesPerWorker = 25;
+  const exitCodes = await Promise.all(
+    Array.from(
+      { length: workers },
+      () =>
+        new Promise<number | null>((resolve) =>
+          fork(process.argv[1], [LOCK_WORKER_FLAG, sharedDir, String(updatesPerWorker)])
+            .on("exit", resolve)
+            .on("error", () => resolve(null))
+        )
+    )
+  );
+  const contended = await new FileTelemetryStore(sharedDir).get<number>("contended");
+  const leftovers = fs.readdirSync(sharedDir).filter((name) => name !== ".contended.json");
+  console.log(
+    `\n📋 ${workers} processes x ${updatesPerWorker} updates: ${contended}, exit codes: ${exitCodes.join()}, leftover lock files: ${leftovers.length}`
+  );
+  check(
+    "file lock across processes",
+    contended === workers * updatesPerWorker &&
+      exitCodes.every((code) => code === 0) &&
+      leftovers.length === 0
+  );
+  fs.rmSync(sharedDir, { recursive: true, force: true });
+
+  setTelemetryStore(original);
+}
+
+// Window tests: percentiles and error rates only reflect recent calls
+async function runWindowTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📈 Rolling Window Telemetry");
+  console.log("=".repeat(70));
+
+  const now = Date.now();
+  const stale = now - WINDOW_CONFIG.MAX_AGE_MS - 1000;
+  const samples = [
+    // An old outage outside the window must not count
+    ...Array.from({ length: 20 }, () => ({
+      timestamp: stale,
+      latencyMs: 30000,
+      success: false,
+    })),
+    // 100 recent calls at 10ms, 20ms, ..., 1000ms; the last 5 failed
+    ...Array.from({ length: 100 }, (_, i) => ({
+      timestamp: now,
+      latencyMs: (i + 1) * 10,
+      success: i < 95,
+    })),
+  ];
+  const stats = computeWindowStats(samples, now);
+  console.log(
+    `\n📋 p50=${stats?.p50LatencyMs} p95=${stats?.p95LatencyMs} p99=${stats?.p99LatencyMs} errorRate=${stats?.errorRate}`
+  );
+  check(
+    "windowed percentiles and error rate",
+    stats?.p50LatencyMs === 500 &&
+      stats.p95LatencyMs === 950 &&
+      stats.p99LatencyMs === 990 &&
+      stats.errorRate === 0.05
+  );
+}
+
+// Circuit breaker tests: trip, cooldown, half-open probe
+async function runBreakerTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🔌 Circuit Breakers");
+  console.log("=".repeat(70));
+
+  // Consecutive failures trip the breaker and remove the model from candidacy
+  registerModel({
+    id: "local/test-flaky",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.0001,
+    maxLatencyMs: 500,
+  });
+  for (let i = 0; i < BREAKER_CONFIG.CONSECUTIVE_FAILURES; i++) {
+    await updateTelemetry("local/test-flaky", 500, false);
+  }
+  const config = RouterConfigSchema.parse({ task: "classification", priority: "cost" });
+  const { model: selected } = await selectModel(config);
+  const stats = await getRoutingStats();
+  const excluded = stats.recentDecisions
+    .at(-1)
+    ?.alternatives.find((alt) => alt.model === "local/test-flaky");
+  console.log(
+    `\n📋 After ${BREAKER_CONFIG.CONSECUTIVE_FAILURES} failures: state=${stats.breakersByModel["local/test-flaky"].effectiveState}, selected=${selected}`
+  );
+  check(
+    "breaker opens after consecutive failures",
+    selected !== "local/test-flaky" && excluded?.reason === "circuit open"
+  );
+  unregisterModel("local/test-flaky");
+
+  // Cooldown -> half-open; one probe at a time; success closes, failure re-opens
+  const t0 = Date.now();
+  let breaker = initialBreaker("m", t0);
+  for (let i = 0; i < BREAKER_CONFIG.CONSECUTIVE_FAILURES; i++) {
+    breaker = recordBreakerResult(breaker, false, [], t0);
+  }
+  const afterCooldown = t0 + BREAKER_CONFIG.COOLDOWN_MS;
+  const probing = startProbe(breaker, afterCooldown);
+  const reopened = recordBreakerResult(probing, false, [], afterCooldown + 1);
+  const closed = recordBreakerResult(probing, true, [], afterCooldown + 1);
+  const checks = [
+    getBreakerState(breaker, t0 + 1) === "open",
+    getBreakerState(breaker, afterCooldown) === "half_open",
+    getBreakerExclusion(breaker, afterCooldown) === null,
+    getBreakerExclusion(probing, afterCooldown + 1) !== null,
+    getBreakerState(reopened, afterCooldown + 2) === "open",
+    getBreakerState(closed, afterCooldown + 2) === "closed",
+  ];
+  console.log(`\n📋 Half-open transitions: ${checks.filter(Boolean).length}/${checks.length}`);
+  check("half-open transitions", checks.every(Boolean));
+}
+
+// Budget tests: soft limit degrades to cheaper tiers, hard cap refuses
+async function runBudgetTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🏦 Tenant Budgets");
+  console.log("=".repeat(70));
+
+  setTenantBudget({
+    tenant: "test-team",
+    period: "day",
+    softLimitUsd: 0.01,
+    hardLimitUsd: 0.02,
+    degradedMaxTier: CapabilityTier.BASIC,
+  });
+  const config = RouterConfigSchema.parse({
+    task: "reasoning",
+    priority: "quality",
+    tenant: "test-team",
+  });
+  // 10k input tokens on gpt-5-mini: $0.0025 per call
+  const spend = () =>
+    updateTelemetry("openai/gpt-5-mini", 1000, true, {
+      usage: { inputTokens: 10000, outputTokens: 0 },
+      task: "reasoning",
+      tenant: "test-team",
+    });
+
+  const { model: underBudget } = await selectModel(config);
+  for (let i = 0; i < 4; i++) await spend(); // $0.01 -> soft limit
+  const { model: degraded } = await selectModel(config);
+  const degradedDecision = (await getRoutingStats()).recentDecisions.at(-1);
+  console.log(`\n📋 Under budget: ${underBudget}, over soft limit: ${degraded}`);
+  check(
+    "soft budget limit degrades tier",
+    underBudget === "openai/gpt-5-mini" &&
+      degraded === "openai/gpt-4o-mini" &&
+      degradedDecision?.budget?.status === "soft_exceeded"
+  );
+
+  for (let i = 0; i < 4; i++) await spend(); // $0.02 -> hard cap
+  try {
+    await selectModel(config);
+    console.log("\n📋 Over hard cap: expected an error");
+    check("over hard cap throws BudgetExceededError", false);
+  } catch (error) {
+    console.log(`\n📋 Over hard cap: ${error instanceof Error ? error.name : error}`);
+    check("over hard cap throws BudgetExceededError", error instanceof BudgetExceededError);
+  }
+
+  removeTenantBudget("test-team");
+
+  // Tenants come from API keys, not a header; other callers get the "*" budget
+  setTenantBudget({ tenant: "*", hardLimitUsd: 0 });
+  const request = new NextRequest("http://localhost/api/moderation", {
+    headers: { "x-tenant-id": "test-team", "x-forwarded-for": "10.1.2.3" },
+  });
+  const tenant = getTenantId(request);
+  let defaultCapped = false;
+  try {
+    await selectModel({ task: "classification", priority: "cost", complexity: "low", tenant });
+  } catch (error) {
+    defaultCapped = error instanceof BudgetExceededError;
+  }
+  removeTenantBudget("*");
+  console.log(`\n📋 Tenant for a header-only request: ${tenant}, default budget applied: ${defaultCapped}`);
+  check(
+    "unauthenticated tenant falls back to client id and default budget",
+    tenant === "rate-limit:10.1.2.3" && defaultCapped
+  );
+}
+
+// Strategy tests: epsilon-greedy explores the least-sampled model
+async function runStrategyTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🎰 Routing Strategies");
+  console.log("=".repeat(70));
+
+  // Always explore (random() = 0 < epsilon)
+  registerStrategy({
+    ...createEpsilonGreedyStrategy({ epsilon: 0.5, random: () => 0 }),
+    name: "test-always-explore",
+  });
+  registerModel({
+    id: "local/test-unsampled",
+    capabilityTier: CapabilityTier.REASONING,
+    baseCostPer1kTokens: 1,
+    maxLatencyMs: 20000,
+  });
+  const config = RouterConfigSchema.parse({ task: "classification", priority: "speed" });
+
+  const { model: greedy } = await selectModel(config);
+  const greedyDecision = (await getRoutingStats()).recentDecisions.at(-1);
+  const { model: explored } = await selectModel({ ...config, strategy: "test-always-explore" });
+  const exploredDecision = (await getRoutingStats()).recentDecisions.at(-1);
+  console.log(`\n📋 Heuristic: ${greedy}, exploration: ${explored}`);
+  check(
+    "exploration strategy",
+    greedy !== "local/test-unsampled" &&
+      greedyDecision?.strategy === "heuristic" &&
+      !greedyDecision.exploration &&
+      explored === "local/test-unsampled" &&
+      exploredDecision?.strategy === "test-always-explore" &&
+      exploredDecision.exploration === true
+  );
+
+  unregisterModel("local/test-unsampled");
+}
+
+// Test context-window exclusion and chunk sizing
+async function runContextWindowTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📏 Context Windows");
+  console.log("=".repeat(70));
+
+  // 200k tokens doesn't fit gpt-4o-mini's 128k window
+  const config = RouterConfigSchema.parse({
+    task: "classification",
+    priority: "cost",
+    estimatedInputTokens: 200000,
+  });
+  const decision = await explainRouting(config);
+  const excluded = decision.alternatives.find(
+    (alt) => alt.model === "openai/gpt-4o-mini"
+  );
+  console.log(
+    `\n📋 200k-token prompt: selected ${decision.selectedModel}, gpt-4o-mini ${excluded?.reason}`
+  );
+  check(
+    "context window exclusion",
+    decision.selectedModel !== "openai/gpt-4o-mini" &&
+      excluded?.excluded === true &&
+      excluded.reason.startsWith("context window too small")
+  );
+
+  // Small windows shrink chunks; large windows are capped
+  registerModel({
+    id: "local/test-short-context",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.0001,
+    maxLatencyMs: 1000,
+    contextWindow: 16000,
+  });
+  const small = getSafeChunkTokens("local/test-short-context");
+  const large = getSafeChunkTokens("openai/gpt-4.1");
+  unregisterModel("local/test-short-context");
+  console.log(`\n📋 Safe chunk sizes: 16k window=${small}, gpt-4.1=${large}`);
+  check(
+    "safe chunk sizes",
+    small > 0 && small < CONTEXT_CONFIG.MAX_CHUNK_TOKENS && large === CONTEXT_CONFIG.MAX_CHUNK_TOKENS
+  );
+}
+
+// Test explain dry runs
+async function runExplainTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🔍 Routing Explanations");
+  console.log("=".repeat(70));
+
+  const before = (await getRoutingStats()).totalDecisions;
+  const decision = await explainRouting(
+    RouterConfigSchema.parse({ task: "reasoning", priority: "cost" })
+  );
+  const after = (await getRoutingStats()).totalDecisions;
+  const breakdown = decision.breakdown;
+  const scored = decision.alternatives.filter((alt) => !alt.excluded);
+
+  console.log(
+    `\n📋 Dry run selected ${decision.selectedModel}: ${JSON.stringify(breakdown)}`
+  );
+  check(
+    "explain breakdown",
+    breakdown !== undefined &&
+      breakdown.costScore !== null &&
+      breakdown.speedScore === null &&
+      breakdown.qualityScore === null &&
+      breakdown.total === decision.alternatives.reduce(
+        (max, alt) => Math.max(max, alt.score),
+        breakdown.total
+      ) &&
+      scored.every((alt) => alt.breakdown !== undefined) &&
+      after === before
+  );
+}
+
+// Test offline replay of recorded decisions
+async function runReplayTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🔁 Offline Replay");
+  console.log("=".repeat(70));
+
+  const history = await loadRoutingHistory();
+  const requests = historyToRequests(history);
+  const report = replayRouting(requests, await loadTelemetry(), "recorded", {
+    name: "all-cost",
+    priority: "cost",
+  });
+  const candidateUsage = Object.values(report.candidate.modelUsage).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+
+  console.log(
+    `\n📋 Replayed ${report.baseline.requests} decisions: ${report.changedDecisions} changed, cost ${report.diff.projectedCostUsd.toFixed(4)}, latency ${report.diff.avgLatencyMs.toFixed(0)}ms`
+  );
+  check(
+    "replay report",
+    report.baseline.requests === history.length &&
+      candidateUsage + report.candidate.unroutable === history.length &&
+      // Cost priority can't cost more unless some recorded models are gone
+      (report.baseline.unroutable > 0 ||
+        report.candidate.projectedCostUsd <= report.baseline.projectedCostUsd) &&
+      (await loadRoutingHistory()).length === history.length
+  );
+
+  // Partial weight overrides keep the active weights for unset fields
+  const config = RouterConfigSchema.parse({ task: "classification", priority: "cost" });
+  const simulated = simulateRouting(config, await loadTelemetry(), {
+    weights: { cost: { cost: 0.9 } },
+  });
+  const invalid = PriorityWeightOverridesSchema.safeParse({ cost: { cost: "high" } });
+  console.log(
+    `\n📋 Partial weights: score ${simulated?.score}, invalid rejected: ${!invalid.success}`
+  );
+  check(
+    "partial weight overrides",
+    simulated !== null && Number.isFinite(simulated.score) && !invalid.success
+  );
+}
+
+// Test routing policy files: custom tasks, versioning and reloads
+async function runPolicyTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📜 Routing Policy");
+  console.log("=".repeat(70));
+
+  const policyPath = path.join(os.tmpdir(), `router-policy-test-${process.pid}.json`);
+  const writePolicy = (policy: object, mtime: number) => {
+    fs.writeFileSync(policyPath, JSON.stringify(policy));
+    fs.utimesSync(policyPath, mtime, mtime);
+  };
+
+  const unknownTask = RouterConfigSchema.safeParse({ task: "translation" });
+  writePolicy(
+    {
+      version: "test-v1",
+      customTasks: [{ name: "translation", tier: "basic" }],
+      penalties: { insufficientTier: 80 },
+    },
+    1000
+  );
+  loadRoutingPolicy(policyPath);
+  const decision = await explainRouting(
+    RouterConfigSchema.parse({ task: "translation", priority: "cost" })
+  );
+  console.log(
+    `\n📋 Custom task: rejected before load=${!unknownTask.success}, policy ${decision.policyVersion}`
+  );
+  check(
+    "custom task policy",
+    !unknownTask.success && decision.policyVersion === "test-v1"
+  );
+
+  // An invalid edit keeps the current policy; a valid one replaces it
+  writePolicy({ version: "test-v2", weights: { cost: { base: -1 } } }, 2000);
+  const afterInvalid = reloadRoutingPolicy().version;
+  writePolicy({ version: "test-v3" }, 3000);
+  const afterValid = reloadRoutingPolicy().version;
+  console.log(`\n📋 Reloads: invalid -> ${afterInvalid}, valid -> ${afterValid}`);
+  check(
+    "policy reload",
+    afterInvalid === "test-v1" && afterValid === "test-v3"
+  );
+
+  resetRoutingPolicy();
+  fs.rmSync(policyPath, { force: true });
+}
+
+// Test sticky routing by affinity key and forced models
+async function runPinningTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📌 Sticky Routing & Forced Models");
+  console.log("=".repeat(70));
+
+  const config = RouterConfigSchema.parse({
+    task: "classification",
+    priority: "cost",
+    affinityKey: `session-${process.pid}`,
+  });
+  const { model: first } = await selectModel(config);
+
+  // A cheaper model appears mid-session; the session stays on its pinned model
+  registerModel({
+    id: "local/test-cheaper",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.0001,
+    maxLatencyMs: 1000,
+  });
+  const { model: second } = await selectModel(config);
+  const secondDecision = (await getRoutingStats()).recentDecisions.at(-1);
+  const { model: unpinned } = await selectModel({ ...config, affinityKey: undefined });
+  console.log(`\n📋 Pinned: ${first} -> ${second}, unpinned: ${unpinned}`);
+  check(
+    "pinned model reused",
+    second === first &&
+      secondDecision?.affinity?.status === "reused" &&
+      unpinned === "local/test-cheaper"
+  );
+
+  // Expired pins are replaced
+  const shortLived = { ...config, affinityKey: `job-${process.pid}`, affinityTtlMs: 1 };
+  await selectModel(shortLived);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const expired = await explainRouting(shortLived);
+  console.log(`\n📋 Expired pin: affinity status ${expired.affinity?.status}`);
+  check("expired pin", expired.affinity?.status === "new");
+  unregisterModel("local/test-cheaper");
+
+  // Forced models are recorded as forced decisions
+  const { model: forced } = await selectModel({ ...config, forceModel: "openai/gpt-5-mini" });
+  const forcedDecision = (await getRoutingStats()).recentDecisions.at(-1);
+  let unknownRejected = false;
+  try {
+    await selectModel({ ...config, forceModel: "local/not-registered" });
+  } catch (error) {
+    unknownRejected = error instanceof NoEligibleModelError;
+  }
+  console.log(`\n📋 Forced: ${forced} (${forcedDecision?.reason})`);
+  check(
+    "forced model",
+    forced === "openai/gpt-5-mini" &&
+      forcedDecision?.forced === true &&
+      unknownRejected
+  );
+}
+
+// Hedging tests: a slow primary is raced against the next model
+async function runHedgeTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🏁 Hedged Requests");
+  console.log("=".repeat(70));
+
+  resetHedgeBudget();
+  // maxLatencyMs bounds the hedge delay below the primary's observed latency
+  const config = RouterConfigSchema.parse({
+    task: "classification",
+    priority: "cost",
+    maxLatencyMs: 30,
+  });
+  let primary: string | undefined;
+  let primaryAborted = false;
+  const { model, decision } = await runWithRouter(
+    config,
+    (candidate, { signal, attempt }) => {
+      if (attempt > 0) return Promise.resolve(`answer from ${candidate}`);
+      primary = candidate;
+      // The primary hangs until aborted
+      return new Promise((_, reject) =>
+        signal.addEventListener("abort", () => {
+          primaryAborted = true;
+          reject(new Error("aborted"));
+        })
+      );
+    },
+    { hedge: { minDelayMs: 20, maxHedgeRate: 1 } }
+  );
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const telemetry = await loadTelemetry();
+  console.log(
+    `\n📋 Hedge: ${primary} -> ${model}, winner ${decision.hedge?.winner} after ${decision.hedge?.delayMs}ms`
+  );
+  check(
+    "hedge winner",
+    model !== primary &&
+      decision.hedge?.winner === "hedge" &&
+      primaryAborted &&
+      decision.attempts?.some((a) => a.model === primary && a.aborted) &&
+      telemetry[model].hedgesLaunched === 1 &&
+      telemetry[model].hedgeWins === 1 &&
+      telemetry[primary!].abortedCalls === 1
+  );
+
+  // The rate cap skips hedges once the share of hedged requests is reached
+  const capped = await runWithRouter(
+    config,
+    (candidate, { attempt }) =>
+      new Promise((resolve) =>
+        setTimeout(() => resolve(candidate), attempt === 0 ? 60 : 0)
+      ),
+    { hedge: { minDelayMs: 20, maxHedgeRate: 0.5 } }
+  );
+  console.log(`\n📋 Rate-capped hedge: ${capped.decision.hedge?.skipped}`);
+  check(
+    "hedge rate cap",
+    capped.decision.hedge?.launched === false &&
+      capped.model === capped.decision.selectedModel
+  );
+  resetHedgeBudget();
+}
+
+// Quality feedback tests: signals on a decision move the model's quality score
+async function runQualityFeedbackTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("👍 Quality Feedback");
+  console.log("=".repeat(70));
+
+  setRoutingPolicy({ quality: { feedbackWeight: 1, minSamples: 3 } });
+  const config = RouterConfigSchema.parse({ task: "chat", priority: "quality" });
+  const { model: before, decisionId } = await selectModel(config);
+  for (let i = 0; i < 3; i++) {
+    await recordQualityFeedback({ decisionId, signal: "thumbs_down", source: `rater-${i}` });
+  }
+  const decision = await explainRouting(config);
+  const downgraded = [decision, ...decision.alternatives].find(
+    (entry) => ("selectedModel" in entry ? entry.selectedModel : entry.model) === before
+  );
+  const history = await loadRoutingHistory();
+  const recorded = history.find((entry) => entry.id === decisionId);
+  console.log(
+    `\n📋 After 3 thumbs down: ${before} -> ${decision.selectedModel} (observed quality ${downgraded?.breakdown?.observedQuality})`
+  );
+  check(
+    "thumbs down downgrades model",
+    decision.selectedModel !== before &&
+      downgraded?.breakdown?.observedQuality === 0 &&
+      recorded?.feedback?.length === 3
+  );
+
+  // Feedback for unknown decisions is rejected
+  let rejected = false;
+  try {
+    await recordQualityFeedback({ decisionId: "missing", signal: "thumbs_up" });
+  } catch (error) {
+    rejected = error instanceof UnknownDecisionError;
+  }
+  console.log(`\n📋 Unknown decision rejected: ${rejected}`);
+  check("unknown decision rejected", rejected);
+
+  // One signal per decision and source
+  let duplicate = false;
+  try {
+    await recordQualityFeedback({ decisionId, signal: "thumbs_up", source: "rater-0" });
+  } catch (error) {
+    duplicate = error instanceof DuplicateFeedbackError;
+  }
+
+  // Decisions that aged out of history are attributed through the caller's target
+  const aged = await recordQualityFeedback(
+    { decisionId: "aged-out", signal: "thumbs_up", source: "review" },
+    { model: before, task: "chat" }
+  );
+  console.log(
+    `\n📋 Duplicate source rejected: ${duplicate}, aged-out decision: ${aged.model} ${aged.quality.samples} samples`
+  );
+  check(
+    "duplicate source rejected, aged-out decision recorded",
+    duplicate && aged.model === before && aged.quality.samples === 4
+  );
+  resetRoutingPolicy();
+}
+
+// Time-series tests: calls are bucketed with histogram percentiles
+async function runTimeSeriesTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📈 Time Series");
+  console.log("=".repeat(70));
+
+  registerModel({
+    id: "local/test-series",
+    capabilityTier: CapabilityTier.BASIC,
+    baseCostPer1kTokens: 0.0001,
+    maxLatencyMs: 1000,
+  });
+  await flushTimeSeries();
+  const start = Date.now();
+  for (let i = 0; i < 3; i++) {
+    await updateTelemetry("local/test-series", 120, true, { task: "classification" });
+  }
+  await updateTelemetry("local/test-series", 2500, false, { task: "classification" });
+
+  // Events are buffered until the next flush; queries flush first
+  const stored = JSON.stringify(
+    await getTelemetryStore().get("routing-timeseries-day")
+  );
+  const buffered = !stored?.includes("local/test-series");
+  const series = await getTimeSeries({ from: start, to: Date.now(), granularity: "day" });
+  const points = series.byModel["local/test-series"] ?? [];
+  const calls = points.reduce((sum, point) => sum + point.calls, 0);
+  const point = points.find((p) => p.calls > 0);
+  console.log(
+    `\n📋 ${calls} calls in ${points.length} bucket(s), buffered before flush: ${buffered}: p50 ${point?.p50LatencyMs}ms, p95 ${point?.p95LatencyMs}ms, error rate ${point?.errorRate}`
+  );
+  check(
+    "time-series bucket stats",
+    buffered &&
+      calls === 4 &&
+      point?.p50LatencyMs === 250 &&
+      point?.p95LatencyMs === 2500 &&
+      point?.errorRate === 0.25 &&
+      series.byTask["classification"] !== undefined
+  );
+  unregisterModel("local/test-series");
+
+  // Ranges with too many buckets are rejected
+  let rejected = false;
+  try {
+    await getTimeSeries({ from: start - 30 * 24 * 3600 * 1000, to: start, granularity: "minute" });
+  } catch (error) {
+    rejected = error instanceof TimeSeriesRangeError;
+  }
+  console.log(`\n📋 30 days by minute rejected: ${rejected}`);
+  check("oversized time-series range rejected", rejected);
+}
+
+// Metrics tests: router calls and histograms in OpenMetrics text format
+async function runMetricsTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("📊 OpenMetrics Export");
+  console.log("=".repeat(70));
+
+  await updateTelemetry("openai/gpt-4o-mini", 180, true, { task: "classification" });
+  const testLatency = histogram("test_latency_seconds", "Test latency.", [0.1, 0.25]);
+  [0.07, 0.2, 40].forEach((value) => testLatency.observe(value, { model: "m" }));
+
+  const text = renderMetrics();
+  const expected = [
+    "# TYPE router_calls counter",
+    'router_calls_total{model="openai/gpt-4o-mini",task="classification",outcome="success"}',
+    'router_call_latency_seconds_bucket{model="openai/gpt-4o-mini",le="0.25"}',
+    'test_latency_seconds_bucket{model="m",le="0.1"} 1',
+    'test_latency_seconds_bucket{model="m",le="0.25"} 2',
+    'test_latency_seconds_bucket{model="m",le="+Inf"} 3',
+    'test_latency_seconds_count{model="m"} 3',
+  ];
+  const missing = expected.filter((line) => !text.includes(line));
+  console.log(`\n📋 ${expected.length - missing.length}/${expected.length} expected lines`);
+  missing.forEach((line) => console.log(`   missing: ${line}`));
+  check("OpenMetrics exposition", missing.length === 0 && text.endsWith("# EOF\n"));
+}
+
+// Admin tests: token check, reset, snapshot round trip and pruning
+async function runAdminTests() {
+  console.log("\n\n" + "=".repeat(70));
+  console.log("🔐 Admin API");
+  console.log("=".repeat(70));
+
+  const configuredToken = ADMIN_CONFIG.TOKEN;
+  ADMIN_CONFIG.TOKEN = "test-token";
+  const url = "http://localhost/api/model-router/stats";
+  const anonymous = requireAdmin(new Request(url));
+  const wrong = requireAdmin(new Request(url, { headers: { authorization: "Bearer nope" } }));
+  const allowed = requireAdmin(
+    new Request(url, { headers: { authorization: "Bearer test-token" } })
+  );
+  ADMIN_CONFIG.TOKEN = configuredToken;
+  console.log(`\n📋 Token: anonymous ${anonymous?.status}, wrong ${wrong?.status}, valid ${allowed?.status ?? "allowed"}`);
+  check(
+    "admin token check",
+    anonymous?.status === 401 && wrong?.status === 401 && allowed === null
+  );
+
+  // Reset a model, then restore it from a snapshot
+  const model = "openai/gpt-4o-mini";
+  const snapshot = TelemetrySnapshotSchema.parse(
+    JSON.parse(JSON.stringify(await exportTelemetrySnapshot()))
+  );
+  const callsBefore = (await loadTelemetry())[model].callCount;
+  await resetTelemetry(model);
+  const callsAfterReset = (await loadTelemetry())[model].callCount;
+  await importTelemetrySnapshot(snapshot);
+  const callsRestored = (await loadTelemetry())[model].callCount;
+  console.log(`\n📋 ${model} calls: ${callsBefore} -> reset ${callsAfterReset} -> restored ${callsRestored}`);
+  check(
+    "admin reset and restore",
+    callsBefore > 0 && callsAfterReset === 0 && callsRestored === callsBefore
+  );
+
+  // Malformed entries are rejected rather than written to the store
+  const malformed = [
+    { ...snapshot, telemetry: { [model]: { model, callCount: "many" } } },
+    { ...snapshot, breakers: { [model]: { model, state: "melted" } } },
+    { ...snapshot, history: [{ id: "d1", timestamp: 1, selectedModel: model }] },
+  ].map((input) => TelemetrySnapshotSchema.safeParse(input).success);
+  const older = TelemetrySnapshotSchema.safeParse({
+    ...snapshot,
+    telemetry: { [model]: { model, callCount: 3 } },
+    breakers: { [model]: { model, state: "closed" } },
+  });
+  if (older.success) await importTelemetrySnapshot(older.data);
+  const filled = (await loadTelemetry())[model];
+  console.log(
+    `\n📋 Malformed snapshots accepted: ${malformed.join()}, older entry filled: ${filled.recentCalls.length} samples, ${filled.callCount} calls`
+  );
+  check(
+    "snapshot validation",
+    malformed.every((accepted) => !accepted) &&
+      older.success &&
+      filled.callCount === 3 &&
+      Array.isArray(filled.recentCalls)
+  );
+  await importTelemetrySnapshot(snapshot);
+
+  // Prune everything recorded so far for the model
+  const pruned = await pruneTelemetry(Date.now() + 1, model);
+  const remaining = (await loadRoutingHistory()).filter(
+    (decision) => decision.selectedModel === model
+  ).length;
+  console.log(`\n📋 Pruned ${pruned.samples} samples, ${pruned.decisions} decisions`);
+  check(
+    "admin prune",
+    pruned.samples > 0 && remaining === 0 && (await loadTelemetry())[model].recentCalls.length === 0
+  );
+}
+
+// Child process for the multi-process lock test: `--lock-worker <dir> <updates>`
+const LOCK_WORKER_FLAG = "--lock-worker";
+
+async function runLockWorker(dir: string, updates: number) {
+  const store = new FileTelemetryStore(dir);
+  for (let i = 0; i < updates; i++) {
+    await store.update<number>("contended", 0, (n) => n + 1);
+  }
+}
+
 async function main() {
+  // Keep test runs isolated from the lib/ telemetry files
+  setTelemetryStore(new MemoryTelemetryStore());
+
   await runTests();
+  await runRegistryTests();
+  await runCapabilityTests();
+  await runFallbackTests();
+  await runCostTests();
+  await runStoreTests();
+  await runWindowTests();
+  await runBreakerTests();
+  await runBudgetTests();
+  await runStrategyTests();
+  await runExplainTests();
+  await runContextWindowTests();
+  await runReplayTests();
+  await runPolicyTests();
+  await runPinningTests();
+  await runHedgeTests();
+  await runQualityFeedbackTests();
+  await runTimeSeriesTests();
+  await runMetricsTests();
+  await runAdminTests();
   await runWorkloadSimulation();
+
+  const { passed, failed } = results;
+  console.log("\n" + "=".repeat(70));
+  console.log(`✅ Tests Passed: ${passed}`);
+  console.log(`❌ Tests Failed: ${failed}`);
+  console.log(`📊 Success Rate: ${((passed / (passed + failed)) * 100).toFixed(1)}%`);
+
+  if (failed === 0) {
+    console.log("\n🎉 All tests passed!");
+  } else {
+    failedChecks.forEach((name) => console.log(`   ❌ ${name}`));
+    console.log("\n⚠️  Some tests failed. Review the output above.");
+    process.exitCode = 1;
+  }
 }
 
-main().catch(console.error);
+const [, , mode, ...args] = process.argv;
+(mode === LOCK_WORKER_FLAG
+  ? runLockWorker(args[0], parseInt(args[1]))
+  : main()
+).catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
 
 
 
@@ -1,24 +1,125 @@
 import { z } from "zod";
-import fs from "fs";
-import path from "path";
+import { randomUUID } from "crypto";
+import {
+  CapabilityTier,
+  calculateCost,
+  getModel,
+  getModelCapabilities,
+  getUsableContextTokens,
+  listModels,
+  type TokenUsage,
+} from "./model-registry";
+import { getTelemetryStore } from "./telemetry-store";
+import { recordCallPoint, recordDecisionPoint } from "./routing-timeseries";
+import { counter, histogram } from "./metrics-registry";
+import {
+  DuplicateFeedbackError,
+  QUALITY_SIGNALS,
+  QualityFeedbackSchema,
+  UnknownDecisionError,
+  applyQualitySignal,
+  getObservedQuality,
+  type QualityFeedbackInput,
+  type QualitySignal,
+  type QualityStats,
+} from "./quality-feedback";
+import { getStrategy, type ScoredCandidate } from "./routing-strategies";
+import { getAffinityPin, getForcedModel, pinAffinity } from "./model-pinning";
+import {
+  checkHedgeBudget,
+  getHedgeDelay,
+  trackHedgeEligible,
+  type HedgeOptions,
+} from "./request-hedging";
+import {
+  ROUTING_PRIORITIES,
+  getRoutingPolicy,
+  getTaskTier,
+  listTaskTypes,
+  mergePriorityWeights,
+  type PriorityWeightOverrides,
+  type RoutingPolicy,
+} from "./routing-policy";
+import {
+  BudgetExceededError,
+  getTenantBudgetState,
+  listTenantBudgetStates,
+  recordTenantSpend,
+  type TenantBudgetState,
+} from "./tenant-budgets";
+import {
+  getBreakerExclusion,
+  getBreakerState,
+  initialBreaker,
+  recordBreakerResult,
+  startProbe,
+  type BreakerState,
+  type CircuitBreaker,
+} from "./circuit-breaker";
+import {
+  appendSample,
+  computeWindowStats,
+  type CallSample,
+  type WindowStats,
+} from "./telemetry-window";
+
+export {
+  CapabilityTier,
+  type TokenUsage,
+  estimateTokens,
+  getSafeChunkTokens,
+} from "./model-registry";
+export type { WindowStats } from "./telemetry-window";
+export {
+  GRANULARITIES,
+  TimeSeriesRangeError,
+  flushTimeSeries,
+  getTimeSeries,
+  type Granularity,
+  type TimeSeries,
+  type TimeSeriesPoint,
+} from "./routing-timeseries";
+export type { BreakerState, CircuitBreaker } from "./circuit-breaker";
+export { BudgetExceededError } from "./tenant-budgets";
+export {
+  DuplicateFeedbackError,
+  QualityFeedbackSchema,
+  UnknownDecisionError,
+  type QualityFeedback,
+  type QualityFeedbackInput,
+  type QualitySignal,
+  type QualityStats,
+} from "./quality-feedback";
+export {
+  getRoutingPolicy,
+  setRoutingPolicy,
+  loadRoutingPolicy,
+  reloadRoutingPolicy,
+  PriorityWeightOverridesSchema,
+  type PriorityWeights,
+  type PriorityWeightOverrides,
+  type RoutingPolicy,
+} from "./routing-policy";
+export {
+  registerStrategy,
+  createEpsilonGreedyStrategy,
+  type RoutingStrategy,
+  type ScoredCandidate,
+} from "./routing-strategies";
 
 // Router configuration schema
 export const RouterConfigSchema = z.object({
-  task: z.enum([
-    "classification",
-    "summarization",
-    "reasoning",
-    "extraction",
-    "chat",
-    "other",
-  ]),
+  task: z
+    .string()
+    .refine((task) => listTaskTypes().includes(task), (task) => ({
+      message: `Unknown task "${task}"; add it to customTasks in the routing policy`,
+    }))
+    .describe("Built-in task type or a custom task from the routing policy"),
   maxLatencyMs: z
     .number()
     .optional()
     .describe("Maximum acceptable latency in milliseconds"),
-  priority: z
-    .enum(["cost", "quality", "speed", "balanced"])
-    .default("balanced"),
+  priority: z.enum(ROUTING_PRIORITIES).default("balanced"),
   complexity: z
     .enum(["low", "medium", "high"])
     .default("medium")
@@ -27,18 +128,38 @@ export const RouterConfigSchema = z.object({
     .array(z.string())
     .optional()
     .describe("Required capabilities (e.g., 'structured_output', 'streaming')"),
+  tenant: z
+    .string()
+    .optional()
+    .describe("Tenant/budget identifier; spend is tracked and capped per tenant"),
+  strategy: z
+    .string()
+    .optional()
+    .describe("Routing strategy name (e.g., 'heuristic', 'epsilon-greedy')"),
+  estimatedInputTokens: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Estimated prompt size; models whose context window can't fit it are excluded"),
+  affinityKey: z
+    .string()
+    .optional()
+    .describe("Session/job id; the first selection is reused for this key until the TTL expires"),
+  affinityTtlMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Affinity pin lifetime (default ROUTER_AFFINITY_TTL_MS)"),
+  forceModel: z
+    .string()
+    .optional()
+    .describe("Debug override: always route to this model (also ROUTER_FORCE_MODEL)"),
 });
 
 export type RouterConfig = z.infer<typeof RouterConfigSchema>;
 
-// Model capability tiers
-export enum CapabilityTier {
-  BASIC = "basic", // Simple tasks, fast responses
-  STANDARD = "standard", // Most common tasks
-  ADVANCED = "advanced", // Complex reasoning, structured output
-  REASONING = "reasoning", // Deep reasoning, multi-step problems
-}
-
 // Model telemetry data
 export interface ModelTelemetry {
   model: string;
@@ -48,116 +169,276 @@ export interface ModelTelemetry {
   capabilityTier: CapabilityTier;
   lastUpdated: number; // Timestamp
   callCount: number; // Total number of calls
-  avgLatencyMs: number; // Running average latency
+  avgLatencyMs: number; // Running average latency (lifetime)
+  recentCalls: CallSample[]; // Rolling window used for percentiles and error rates
+  inputTokens: number; // Total input tokens reported by the AI SDK
+  outputTokens: number; // Total output tokens reported by the AI SDK
+  totalCostUsd: number; // Actual spend from token usage
+  costByTask: Record<string, number>; // Actual spend per task type
+  costByDay: Record<string, number>; // Actual spend per UTC day (YYYY-MM-DD)
+  hedgesLaunched: number; // Times this model was sent a hedged request
+  hedgeWins: number; // Hedged requests this model answered first
+  abortedCalls: number; // Calls cancelled because a hedge race was lost
+  qualityByTask: Record<string, QualityStats>; // Quality feedback per task type
 }
 
 // Routing decision record
 export interface RoutingDecision {
+  id: string; // Referenced by quality feedback
   timestamp: number;
   config: RouterConfig;
   selectedModel: string;
   reason: string;
-  alternatives: Array<{ model: string; score: number; reason: string }>;
-}
-
-// Static model capabilities and base costs (from provider docs)
-const MODEL_CAPABILITIES: Record<
-  string,
-  {
-    capabilityTier: CapabilityTier;
-    baseCostPer1kTokens: number; // Approximate cost per 1k tokens
-    maxLatencyMs: number; // Typical max latency
-    supportsStructuredOutput: boolean;
-    supportsStreaming: boolean;
-  }
-> = {
-  "openai/gpt-4.1": {
-    capabilityTier: CapabilityTier.STANDARD,
-    baseCostPer1kTokens: 0.03, // Approximate
-    maxLatencyMs: 3000,
-    supportsStructuredOutput: true,
-    supportsStreaming: true,
-  },
-  "openai/gpt-5-mini": {
-    capabilityTier: CapabilityTier.REASONING,
-    baseCostPer1kTokens: 0.05, // Higher cost for reasoning models
-    maxLatencyMs: 10000, // Reasoning takes longer
-    supportsStructuredOutput: true,
-    supportsStreaming: true,
-  },
-  "openai/gpt-4o-mini": {
-    capabilityTier: CapabilityTier.BASIC,
-    baseCostPer1kTokens: 0.01, // Cheaper, faster
-    maxLatencyMs: 2000,
-    supportsStructuredOutput: true,
-    supportsStreaming: true,
-  },
-};
+  policyVersion?: string; // Routing policy version used for scoring
+  breakdown?: ScoreBreakdown; // Per-factor score of the selected model
+  alternatives: Array<{
+    model: string;
+    score: number;
+    reason: string;
+    breakdown?: ScoreBreakdown;
+    excluded?: boolean; // Filtered out before scoring (e.g. missing capabilities)
+  }>;
+  attempts?: RoutingAttempt[]; // Set when executed through runWithRouter
+  strategy?: string; // Strategy that ranked the candidates
+  exploration?: boolean; // True when the pick was an exploration, not the best score
+  budget?: Pick<TenantBudgetState, "tenant" | "status" | "spentUsd" | "periodKey">;
+  forced?: boolean; // Selected by a forced-model override, not by scoring
+  hedge?: {
+    delayMs: number; // Primary latency after which a hedge was due
+    launched: boolean;
+    winner?: "primary" | "hedge";
+    skipped?: string; // Why a due hedge wasn't launched (cost caps)
+  };
+  affinity?: {
+    key: string;
+    status: "reused" | "new" | "repinned"; // repinned: the pinned model is no longer eligible
+    expiresAt?: number; // Set when an existing pin was reused
+  };
+  feedback?: Array<{
+    signal: QualitySignal;
+    source?: string;
+    note?: string;
+    timestamp: number;
+  }>;
+}
 
-// Telemetry storage file
-const getTelemetryPath = () => {
-  const libPath = path.join(process.cwd(), "lib");
-  // Ensure lib directory exists
-  if (!fs.existsSync(libPath)) {
-    fs.mkdirSync(libPath, { recursive: true });
+// A single model call made by runWithRouter
+export interface RoutingAttempt {
+  model: string;
+  success: boolean;
+  latencyMs: number;
+  error?: string;
+  hedged?: boolean; // Launched as a hedge for a slow primary
+  aborted?: boolean; // Cancelled because the other hedged call answered first
+}
+
+// Thrown when no registered model satisfies the hard routing constraints
+export class NoEligibleModelError extends Error {
+  constructor(
+    public readonly config: RouterConfig,
+    public readonly excluded: Array<{ model: string; reason: string }>
+  ) {
+    super(
+      `No model satisfies the routing constraints for task "${config.task}"` +
+        (excluded.length > 0
+          ? `: ${excluded.map((e) => `${e.model} (${e.reason})`).join("; ")}`
+          : "")
+    );
+    this.name = "NoEligibleModelError";
+  }
+}
+
+// Thrown when a per-attempt timeout elapses in runWithRouter
+export class RouterTimeoutError extends Error {
+  constructor(public readonly model: string, public readonly timeoutMs: number) {
+    super(`Model ${model} did not respond within ${timeoutMs}ms`);
+    this.name = "RouterTimeoutError";
+  }
+}
+
+// Thrown when every model in the fallback chain failed
+export class FallbackExhaustedError extends Error {
+  constructor(
+    public readonly decision: RoutingDecision,
+    public readonly lastError: unknown
+  ) {
+    super(
+      `All ${decision.attempts?.length ?? 0} routing attempts failed: ` +
+        (decision.attempts || [])
+          .map((attempt) => `${attempt.model} (${attempt.error})`)
+          .join("; ")
+    );
+    this.name = "FallbackExhaustedError";
+  }
+}
+
+// Reason a model fails the hard constraints of a config, or null if eligible
+function getExclusionReason(
+  model: string,
+  config: RouterConfig,
+  breakers: Record<string, CircuitBreaker>
+): string | null {
+  const definition = getModel(model);
+  if (!definition) return "unknown model";
+
+  const declared = getModelCapabilities(definition);
+  const missing = (config.requiredCapabilities || []).filter(
+    (capability) => !declared.includes(capability)
+  );
+  if (missing.length > 0) {
+    return `missing capabilities: ${missing.join(", ")}`;
   }
-  return path.join(libPath, ".model-telemetry.json");
-};
 
-const getHistoryPath = () => {
-  const libPath = path.join(process.cwd(), "lib");
-  if (!fs.existsSync(libPath)) {
-    fs.mkdirSync(libPath, { recursive: true });
+  if (
+    config.estimatedInputTokens !== undefined &&
+    config.estimatedInputTokens > getUsableContextTokens(definition)
+  ) {
+    return `context window too small (${definition.contextWindow} tokens)`;
   }
-  return path.join(libPath, ".routing-history.json");
+
+  return getBreakerExclusion(breakers[model]);
+}
+
+// Capability tiers from cheapest to most capable
+const TIER_ORDER = [
+  CapabilityTier.BASIC,
+  CapabilityTier.STANDARD,
+  CapabilityTier.ADVANCED,
+  CapabilityTier.REASONING,
+];
+
+// Whether a tier is below what a task needs, or more than one tier above it
+export function getTierMismatch(
+  tier: CapabilityTier,
+  task: RouterConfig["task"],
+  policy: RoutingPolicy = getRoutingPolicy()
+): "insufficient" | "overkill" | null {
+  const tierIndex = TIER_ORDER.indexOf(tier);
+  const requiredTierIndex = TIER_ORDER.indexOf(
+    getTaskTier(task, policy) ?? CapabilityTier.STANDARD // Tasks dropped from the policy
+  );
+  if (tierIndex < requiredTierIndex) return "insufficient";
+  if (tierIndex > requiredTierIndex + 1) return "overkill";
+  return null;
+}
+
+// Telemetry store keys
+const TELEMETRY_KEY = "model-telemetry";
+const HISTORY_KEY = "routing-history";
+const BREAKERS_KEY = "circuit-breakers";
+const HISTORY_LIMIT = parseInt(process.env.ROUTER_HISTORY_LIMIT || "100"); // Decisions kept for stats and replay
+const FEEDBACK_KEY = "routing-feedback";
+const FEEDBACK_LIMIT = parseInt(process.env.ROUTER_FEEDBACK_LIMIT || "10000"); // Decision and source pairs remembered for dedupe
+
+// Exported by /api/metrics
+const routerMetrics = {
+  decisions: counter("router_decisions", "Routing decisions by selected model and task."),
+  calls: counter("router_calls", "Model calls by model, task and outcome (success or failure)."),
+  latency: histogram("router_call_latency_seconds", "Model call latency by model."),
 };
 
-// Load telemetry data
-function loadTelemetry(): Record<string, ModelTelemetry> {
-  try {
-    const telemetryFile = getTelemetryPath();
-    if (fs.existsSync(telemetryFile)) {
-      return JSON.parse(fs.readFileSync(telemetryFile, "utf-8"));
+// Create a fresh telemetry entry from a model's registry definition
+function initialTelemetry(model: string): ModelTelemetry {
+  const definition = getModel(model);
+  return {
+    model,
+    latencyMs: definition?.maxLatencyMs ?? 5000,
+    costPer1kTokens: definition?.baseCostPer1kTokens ?? 0.03,
+    successRate: 1.0,
+    capabilityTier: definition?.capabilityTier ?? CapabilityTier.STANDARD,
+    lastUpdated: Date.now(),
+    callCount: 0,
+    avgLatencyMs: definition?.maxLatencyMs ?? 5000,
+    recentCalls: [],
+    inputTokens: 0,
+    outputTokens: 0,
+    totalCostUsd: 0,
+    costByTask: {},
+    costByDay: {},
+    hedgesLaunched: 0,
+    hedgeWins: 0,
+    abortedCalls: 0,
+    qualityByTask: {},
+  };
+}
+
+// Add newly registered models and refresh registry-owned fields
+function syncWithRegistry(
+  telemetry: Record<string, ModelTelemetry>
+): Record<string, ModelTelemetry> {
+  listModels().forEach((definition) => {
+    if (!telemetry[definition.id]) {
+      telemetry[definition.id] = initialTelemetry(definition.id);
+    }
+  });
+  Object.keys(telemetry).forEach((model) => {
+    // Fill fields missing from older telemetry files
+    const entry = { ...initialTelemetry(model), ...telemetry[model] };
+    telemetry[model] = entry;
+
+    const definition = getModel(model);
+    if (definition) {
+      entry.costPer1kTokens = definition.baseCostPer1kTokens;
+      entry.capabilityTier = definition.capabilityTier;
     }
+  });
+
+  return telemetry;
+}
+
+// Load telemetry data, synced with the model registry
+export async function loadTelemetry(): Promise<Record<string, ModelTelemetry>> {
+  let telemetry: Record<string, ModelTelemetry> = {};
+  try {
+    telemetry =
+      (await getTelemetryStore().get<Record<string, ModelTelemetry>>(
+        TELEMETRY_KEY
+      )) || {};
   } catch (error) {
     console.warn("Failed to load telemetry:", error);
   }
+  return syncWithRegistry(telemetry);
+}
 
-  // Initialize with base data
-  const initial: Record<string, ModelTelemetry> = {};
-  Object.keys(MODEL_CAPABILITIES).forEach((model) => {
-    initial[model] = {
-      model,
-      latencyMs: MODEL_CAPABILITIES[model].maxLatencyMs,
-      costPer1kTokens: MODEL_CAPABILITIES[model].baseCostPer1kTokens,
-      successRate: 1.0,
-      capabilityTier: MODEL_CAPABILITIES[model].capabilityTier,
-      lastUpdated: Date.now(),
-      callCount: 0,
-      avgLatencyMs: MODEL_CAPABILITIES[model].maxLatencyMs,
-    };
-  });
-  return initial;
+// Load circuit breaker state
+async function loadBreakers(): Promise<Record<string, CircuitBreaker>> {
+  try {
+    return (
+      (await getTelemetryStore().get<Record<string, CircuitBreaker>>(
+        BREAKERS_KEY
+      )) || {}
+    );
+  } catch (error) {
+    console.warn("Failed to load circuit breakers:", error);
+  }
+  return {};
 }
 
-// Save telemetry data
-function saveTelemetry(telemetry: Record<string, ModelTelemetry>): void {
+// Claim the probe slot if a model's breaker is half-open
+async function claimProbe(model: string): Promise<void> {
+  const breakers = await loadBreakers();
+  if (getBreakerState(breakers[model]) !== "half_open") return;
   try {
-    fs.writeFileSync(getTelemetryPath(), JSON.stringify(telemetry, null, 2));
+    await getTelemetryStore().update<Record<string, CircuitBreaker>>(
+      BREAKERS_KEY,
+      {},
+      (current) => {
+        if (current[model]) current[model] = startProbe(current[model]);
+        return current;
+      }
+    );
   } catch (error) {
-    console.warn("Failed to save telemetry:", error);
+    console.warn("Failed to save circuit breaker:", error);
   }
 }
 
 // Load routing history
-function loadRoutingHistory(): RoutingDecision[] {
+export async function loadRoutingHistory(): Promise<RoutingDecision[]> {
   try {
-    const historyFile = getHistoryPath();
-    if (fs.existsSync(historyFile)) {
-      const history = JSON.parse(fs.readFileSync(historyFile, "utf-8"));
-      // Keep only last 100 entries
-      return history.slice(-100);
-    }
+    const history =
+      (await getTelemetryStore().get<RoutingDecision[]>(HISTORY_KEY)) || [];
+    // Keep only the most recent entries
+    return history.slice(-HISTORY_LIMIT);
   } catch (error) {
     console.warn("Failed to load routing history:", error);
   }
@@ -165,43 +446,177 @@ function loadRoutingHistory(): RoutingDecision[] {
 }
 
 // Save routing decision
-function saveRoutingDecision(decision: RoutingDecision): void {
+async function saveRoutingDecision(decision: RoutingDecision): Promise<void> {
   try {
-    const history = loadRoutingHistory();
-    history.push(decision);
-    // Keep only last 100 entries
-    const recent = history.slice(-100);
-    fs.writeFileSync(getHistoryPath(), JSON.stringify(recent, null, 2));
+    await getTelemetryStore().update<RoutingDecision[]>(
+      HISTORY_KEY,
+      [],
+      (history) => [...history, decision].slice(-HISTORY_LIMIT) // Keep only the most recent entries
+    );
   } catch (error) {
     console.warn("Failed to save routing decision:", error);
   }
+  routerMetrics.decisions.inc({
+    model: decision.selectedModel,
+    task: decision.config.task,
+  });
+  recordDecisionPoint(
+    decision.selectedModel,
+    decision.config.task,
+    decision.timestamp
+  );
+}
+
+// Optional call details for updateTelemetry
+export interface TelemetryDetails {
+  usage?: TokenUsage; // `usage` from generateText/generateObject
+  task?: RouterConfig["task"];
+  tenant?: string; // Charge the call's cost to this tenant's budget
 }
 
 // Update telemetry after a model call
-export function updateTelemetry(
+export async function updateTelemetry(
   model: string,
   latencyMs: number,
-  success: boolean = true
-): void {
-  const telemetry = loadTelemetry();
+  success: boolean = true,
+  details: TelemetryDetails = {}
+): Promise<void> {
+  let recentCalls: CallSample[] = [];
+  let costUsd = 0;
+  try {
+    const telemetry = await getTelemetryStore().update<
+      Record<string, ModelTelemetry>
+    >(TELEMETRY_KEY, {}, (current) => {
+      const telemetry = syncWithRegistry(current);
+      costUsd = recordCall(telemetry, model, latencyMs, success, details);
+      return telemetry;
+    });
+    recentCalls = telemetry[model].recentCalls;
+  } catch (error) {
+    console.warn("Failed to save telemetry:", error);
+  }
+
+  // Feed the result to the model's circuit breaker
+  try {
+    await getTelemetryStore().update<Record<string, CircuitBreaker>>(
+      BREAKERS_KEY,
+      {},
+      (breakers) => {
+        breakers[model] = recordBreakerResult(
+          breakers[model] ?? initialBreaker(model),
+          success,
+          recentCalls
+        );
+        return breakers;
+      }
+    );
+  } catch (error) {
+    console.warn("Failed to save circuit breaker:", error);
+  }
+
+  if (details.tenant) {
+    await recordTenantSpend(details.tenant, costUsd);
+  }
+
+  routerMetrics.calls.inc({
+    model,
+    task: details.task || "unknown",
+    outcome: success ? "success" : "failure",
+  });
+  routerMetrics.latency.observe(latencyMs / 1000, { model });
+  recordCallPoint(
+    model,
+    details.task || "unknown",
+    latencyMs,
+    success,
+    costUsd
+  );
+}
+
+// Attach a quality signal to a recorded decision and fold it into the
+// selected model's quality for the decision's task. Each source signals a
+// decision once. `target` gives the model and task of a decision that may
+// have aged out of routing history.
+export async function recordQualityFeedback(
+  input: QualityFeedbackInput,
+  target?: { model: string; task: string }
+): Promise<{ model: string; task: string; quality: QualityStats }> {
+  const feedback = QualityFeedbackSchema.parse(input);
+  const history = await loadRoutingHistory();
+  const decision = history.find((entry) => entry.id === feedback.decisionId);
+  const model = decision?.selectedModel ?? target?.model;
+  const task = decision?.config.task ?? target?.task;
+  if (!model || !task) throw new UnknownDecisionError(feedback.decisionId);
+
+  const { decisionId, source } = feedback;
+  const timestamp = Date.now();
+  await getTelemetryStore().update<
+    Array<{ decisionId: string; source: string; timestamp: number }>
+  >(FEEDBACK_KEY, [], (records) => {
+    if (records.some((r) => r.decisionId === decisionId && r.source === source)) {
+      throw new DuplicateFeedbackError(decisionId, source);
+    }
+    return [...records, { decisionId, source, timestamp }].slice(-FEEDBACK_LIMIT);
+  });
+
+  let quality = applyQualitySignal(undefined, feedback.signal, timestamp);
+  await getTelemetryStore().update<Record<string, ModelTelemetry>>(
+    TELEMETRY_KEY,
+    {},
+    (current) => {
+      const telemetry = syncWithRegistry(current);
+      const entry = telemetry[model] ?? initialTelemetry(model);
+      quality = applyQualitySignal(
+        entry.qualityByTask[task],
+        feedback.signal,
+        timestamp
+      );
+      entry.qualityByTask[task] = quality;
+      telemetry[model] = entry;
+      return telemetry;
+    }
+  );
+
+  // Keep the signal with the decision for auditing
+  if (!decision) return { model, task, quality };
+  try {
+    await getTelemetryStore().update<RoutingDecision[]>(
+      HISTORY_KEY,
+      [],
+      (entries) =>
+        entries.map((entry) =>
+          entry.id === decisionId
+            ? {
+                ...entry,
+                feedback: [
+                  ...(entry.feedback ?? []),
+                  { signal: feedback.signal, source, note: feedback.note, timestamp },
+                ],
+              }
+            : entry
+        )
+    );
+  } catch (error) {
+    console.warn("Failed to save routing decision:", error);
+  }
 
+  return { model, task, quality };
+}
+
+// Apply a single call to the telemetry table, returning its cost in USD
+function recordCall(
+  telemetry: Record<string, ModelTelemetry>,
+  model: string,
+  latencyMs: number,
+  success: boolean,
+  details: TelemetryDetails
+): number {
   if (!telemetry[model]) {
     // Initialize if doesn't exist
-    const base = MODEL_CAPABILITIES[model] || {
-      capabilityTier: CapabilityTier.STANDARD,
-      baseCostPer1kTokens: 0.03,
-      maxLatencyMs: 5000,
-      supportsStructuredOutput: true,
-      supportsStreaming: true,
-    };
-
     telemetry[model] = {
-      model,
+      ...initialTelemetry(model),
       latencyMs,
-      costPer1kTokens: base.baseCostPer1kTokens,
       successRate: success ? 1.0 : 0.0,
-      capabilityTier: base.capabilityTier,
-      lastUpdated: Date.now(),
       callCount: 1,
       avgLatencyMs: latencyMs,
     };
@@ -219,148 +634,906 @@ export function updateTelemetry(
     existing.lastUpdated = Date.now();
   }
 
-  saveTelemetry(telemetry);
+  telemetry[model].recentCalls = appendSample(telemetry[model].recentCalls, {
+    timestamp: Date.now(),
+    latencyMs,
+    success,
+  });
+
+  // Accumulate actual spend from token usage
+  if (details.usage) {
+    const entry = telemetry[model];
+    const cost = calculateCost(
+      getModel(model) ?? { baseCostPer1kTokens: entry.costPer1kTokens },
+      details.usage
+    );
+    const day = new Date().toISOString().slice(0, 10);
+    const task = details.task || "unknown";
+
+    entry.inputTokens += details.usage.inputTokens ?? 0;
+    entry.outputTokens += details.usage.outputTokens ?? 0;
+    entry.totalCostUsd += cost;
+    entry.costByTask[task] = (entry.costByTask[task] || 0) + cost;
+    entry.costByDay[day] = (entry.costByDay[day] || 0) + cost;
+    return cost;
+  }
+  return 0;
+}
+
+// Per-factor contributions to a model's score
+export interface ScoreBreakdown {
+  baseScore: number; // Starting score before priority weighting
+  tierPenalty: number; // Capability tier mismatch (negative or 0)
+  latencyPenalty: number; // p95 over maxLatencyMs (negative or 0)
+  costScore: number | null; // Sub-scores used by the priority (null if unused)
+  speedScore: number | null;
+  qualityScore: number | null;
+  observedQuality: number | null; // Feedback quality (0-1) blended into qualityScore
+  weights: { base: number; cost: number; speed: number; quality: number };
+  successRatePenalty: number; // Windowed success rate below the policy threshold (negative or 0)
+  recencyBonus: number; // Recently and frequently used (positive or 0)
+  total: number; // Final score (clamped at 0)
 }
 
-// Calculate model score for a given config
+// Calculate model score for a given config, using the routing policy's
+// weights and penalties
 function calculateModelScore(
   model: string,
   telemetry: ModelTelemetry,
-  config: RouterConfig
-): { score: number; reason: string } {
-  const capabilities = MODEL_CAPABILITIES[model];
-  if (!capabilities) {
+  config: RouterConfig,
+  policy: RoutingPolicy = getRoutingPolicy()
+): { score: number; reason: string; breakdown?: ScoreBreakdown } {
+  const definition = getModel(model);
+  if (!definition || definition.retired) {
     return { score: 0, reason: "Unknown model" };
   }
 
-  let score = 100; // Start with base score
   const reasons: string[] = [];
 
+  // Use the rolling window; models with no recent calls fall back to their
+  // registry latency ceiling so old incidents don't penalise them forever
+  const window = computeWindowStats(telemetry.recentCalls);
+  const p95LatencyMs = window?.p95LatencyMs ?? definition.maxLatencyMs;
+  const successRate = window?.successRate ?? 1.0;
+
   // Check capability tier match
-  const taskTierMap: Record<string, CapabilityTier> = {
-    classification: CapabilityTier.BASIC,
-    summarization: CapabilityTier.STANDARD,
-    extraction: CapabilityTier.STANDARD,
-    reasoning: CapabilityTier.REASONING,
-    chat: CapabilityTier.STANDARD,
-  };
+  const modelTierIndex = TIER_ORDER.indexOf(definition.capabilityTier);
+  const tierMismatch = getTierMismatch(
+    definition.capabilityTier,
+    config.task,
+    policy
+  );
 
-  const requiredTier = taskTierMap[config.task] || CapabilityTier.STANDARD;
-  const tierOrder = [
-    CapabilityTier.BASIC,
-    CapabilityTier.STANDARD,
-    CapabilityTier.ADVANCED,
-    CapabilityTier.REASONING,
-  ];
-  const modelTierIndex = tierOrder.indexOf(telemetry.capabilityTier);
-  const requiredTierIndex = tierOrder.indexOf(requiredTier);
-
-  if (modelTierIndex < requiredTierIndex) {
-    score -= 30; // Model doesn't meet capability requirements
+  let tierPenalty = 0;
+  if (tierMismatch === "insufficient") {
+    tierPenalty = -policy.penalties.insufficientTier; // Model doesn't meet capability requirements
     reasons.push("insufficient capabilities");
-  } else if (modelTierIndex > requiredTierIndex + 1) {
-    score -= 10; // Overkill, but acceptable
+  } else if (tierMismatch === "overkill") {
+    tierPenalty = -policy.penalties.overkillTier; // Overkill, but acceptable
     reasons.push("overkill for task");
   }
 
   // Check latency constraints
-  if (config.maxLatencyMs && telemetry.avgLatencyMs > config.maxLatencyMs) {
-    score -= 50; // Doesn't meet latency requirement
+  let latencyPenalty = 0;
+  if (config.maxLatencyMs && p95LatencyMs > config.maxLatencyMs) {
+    latencyPenalty = -policy.penalties.exceedsMaxLatency; // Doesn't meet latency requirement
     reasons.push("exceeds max latency");
   }
 
-  // Priority-based scoring
-  if (config.priority === "cost") {
-    const costScore = (1 / telemetry.costPer1kTokens) * 100; // Higher score for lower cost
-    score = score * 0.3 + costScore * 0.7;
-    reasons.push("cost-optimized");
-  } else if (config.priority === "speed") {
-    const speedScore = (1 / telemetry.avgLatencyMs) * 10000; // Higher score for lower latency
-    score = score * 0.3 + speedScore * 0.7;
-    reasons.push("speed-optimized");
-  } else if (config.priority === "quality") {
-    // Prefer higher capability tiers
-    const qualityScore = (modelTierIndex + 1) * 25;
-    score = score * 0.3 + qualityScore * 0.7;
-    reasons.push("quality-optimized");
-  } else {
-    // Balanced: consider all factors
-    const costScore = (1 / telemetry.costPer1kTokens) * 50;
-    const speedScore = (1 / telemetry.avgLatencyMs) * 5000;
-    const qualityScore = (modelTierIndex + 1) * 15;
-    score =
-      score * 0.2 + costScore * 0.3 + speedScore * 0.3 + qualityScore * 0.2;
-    reasons.push("balanced");
+  const baseScore = 100 + tierPenalty + latencyPenalty; // Start with base score
+  const weights = policy.weights[config.priority];
+
+  // Priority-based sub-scores (balanced uses half-scale versions of each)
+  const scale = config.priority === "balanced" ? 0.5 : 1;
+  const costScore = weights.cost
+    ? (1 / Math.max(telemetry.costPer1kTokens, 1e-6)) * 100 * scale // Higher score for lower cost; free models stay finite
+    : null;
+  const speedScore = weights.speed
+    ? (1 / p95LatencyMs) * 10000 * scale // Higher score for lower latency
+    : null;
+  // Quality prefers higher capability tiers, blended with quality feedback
+  // for this task once there is enough of it
+  const qualityScale = config.priority === "balanced" ? 15 : 25;
+  const observedQuality = getObservedQuality(
+    telemetry.qualityByTask?.[config.task],
+    policy.quality.minSamples
+  );
+  let qualityScore = weights.quality ? (modelTierIndex + 1) * qualityScale : null;
+  if (qualityScore !== null && observedQuality !== null) {
+    const feedbackScore = observedQuality * TIER_ORDER.length * qualityScale;
+    qualityScore +=
+      (feedbackScore - qualityScore) * policy.quality.feedbackWeight;
+    reasons.push("quality feedback");
   }
+  reasons.push(
+    config.priority === "balanced" ? "balanced" : `${config.priority}-optimized`
+  );
+
+  let score =
+    baseScore * weights.base +
+    (costScore ?? 0) * weights.cost +
+    (speedScore ?? 0) * weights.speed +
+    (qualityScore ?? 0) * weights.quality;
 
   // Penalize low success rate
-  if (telemetry.successRate < 0.95) {
-    score -= (1 - telemetry.successRate) * 50;
+  let successRatePenalty = 0;
+  if (successRate < policy.penalties.successRateThreshold) {
+    successRatePenalty = -(1 - successRate) * policy.penalties.lowSuccessRate;
     reasons.push("low success rate");
   }
 
   // Boost score for recent, frequently used models (they're likely reliable)
+  let recencyBonus = 0;
   const daysSinceUpdate =
     (Date.now() - telemetry.lastUpdated) / (1000 * 60 * 60 * 24);
   if (daysSinceUpdate < 1 && telemetry.callCount > 10) {
-    score += 5;
+    recencyBonus = policy.recencyBonus;
     reasons.push("recently used");
   }
 
+  score = Math.max(0, score + successRatePenalty + recencyBonus);
+
   return {
-    score: Math.max(0, score),
+    score,
     reason: reasons.join(", "),
+    breakdown: {
+      baseScore,
+      tierPenalty,
+      latencyPenalty,
+      costScore,
+      speedScore,
+      qualityScore,
+      observedQuality,
+      weights,
+      successRatePenalty,
+      recencyBonus,
+      total: score,
+    },
   };
 }
 
-// Select the best model for a given configuration
-export function selectModel(config: RouterConfig): string {
-  const telemetry = loadTelemetry();
+// Rank models for a config and build (but don't record) the routing decision
+async function buildRoutingDecision(
+  config: RouterConfig
+): Promise<RoutingDecision> {
+  const [telemetry, breakers] = await Promise.all([
+    loadTelemetry(),
+    loadBreakers(),
+  ]);
+  const policy = getRoutingPolicy();
 
-  // Get all available models
-  const models = Object.keys(telemetry);
+  // Enforce tenant budgets: refuse at the hard cap, degrade past the soft limit
+  const budget = config.tenant
+    ? await getTenantBudgetState(config.tenant)
+    : undefined;
+  if (budget?.status === "hard_exceeded") {
+    throw new BudgetExceededError(budget);
+  }
+  const degraded = budget?.status === "soft_exceeded";
+  const scoringConfig: RouterConfig = degraded
+    ? { ...config, priority: "cost" }
+    : config;
+
+  // Get all active models from the registry
+  const models = listModels().map((definition) => definition.id);
   if (models.length === 0) {
     // Fallback to default
-    return "openai/gpt-4.1";
+    return {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      config,
+      selectedModel: "openai/gpt-4.1",
+      reason: "no registered models, using default",
+      alternatives: [],
+      policyVersion: policy.version,
+    };
+  }
+
+  // Apply hard constraints before scoring
+  const excluded: Array<{ model: string; reason: string }> = [];
+  let eligible = models.filter((model) => {
+    const reason = getExclusionReason(model, config, breakers);
+    if (reason) excluded.push({ model, reason });
+    return !reason;
+  });
+
+  // Past the soft limit, drop tiers above the tenant's degraded max tier
+  // (unless that would leave nothing to route to)
+  if (budget && degraded) {
+    const maxTierIndex = TIER_ORDER.indexOf(budget.degradedMaxTier);
+    const cheaper = eligible.filter(
+      (model) =>
+        TIER_ORDER.indexOf(getModel(model)!.capabilityTier) <= maxTierIndex
+    );
+    if (cheaper.length > 0) {
+      eligible
+        .filter((model) => !cheaper.includes(model))
+        .forEach((model) =>
+          excluded.push({ model, reason: "tenant over soft budget" })
+        );
+      eligible = cheaper;
+    }
+  }
+
+  // A forced model skips eligibility checks but must be registered
+  const forcedModel = getForcedModel(config.forceModel);
+  if (forcedModel && !getModel(forcedModel)) {
+    throw new NoEligibleModelError(config, [
+      { model: forcedModel, reason: "forced model not registered" },
+    ]);
+  }
+
+  if (eligible.length === 0 && !forcedModel) {
+    throw new NoEligibleModelError(config, excluded);
   }
 
-  // Score all models
-  const scored = models.map((model) => {
-    const score = calculateModelScore(model, telemetry[model], config);
+  // Score eligible models
+  const scored = eligible.map((model) => {
+    const score = calculateModelScore(
+      model,
+      telemetry[model],
+      scoringConfig,
+      policy
+    );
     return {
       model,
       ...score,
     };
   });
 
-  // Sort by score (highest first)
-  scored.sort((a, b) => b.score - a.score);
+  // Rank with the configured strategy (heuristic: highest score first)
+  const strategy = getStrategy(config.strategy);
+  const ranking = strategy.rank(scored, {
+    config: scoringConfig,
+    telemetry,
+  });
+  let ranked = ranking.ranked;
+  const moveToFront = (candidate: ScoredCandidate) => {
+    ranked = [candidate, ...ranked.filter((c) => c.model !== candidate.model)];
+  };
+
+  // Forced model first; otherwise keep an affinity key on its pinned model
+  // while that model stays eligible
+  let affinity: RoutingDecision["affinity"];
+  if (forcedModel) {
+    moveToFront(
+      ranked.find((c) => c.model === forcedModel) ?? {
+        model: forcedModel,
+        ...calculateModelScore(
+          forcedModel,
+          telemetry[forcedModel] ?? initialTelemetry(forcedModel),
+          scoringConfig,
+          policy
+        ),
+      }
+    );
+  } else if (config.affinityKey) {
+    const pin = await getAffinityPin(config.affinityKey);
+    const pinned = pin && ranked.find((c) => c.model === pin.model);
+    if (pin && pinned) {
+      moveToFront(pinned);
+      affinity = { key: config.affinityKey, status: "reused", expiresAt: pin.expiresAt };
+    } else {
+      affinity = { key: config.affinityKey, status: pin ? "repinned" : "new" };
+    }
+  }
 
   // Select best model
-  const selected = scored[0];
-  const alternatives = scored.slice(1, 4); // Top 3 alternatives
+  const selected = ranked[0];
+  const alternatives = ranked.slice(1, 4); // Top 3 alternatives
+
+  let reason =
+    `${selected.reason}${degraded ? ", budget degraded" : ""}` +
+    ` (score: ${selected.score.toFixed(2)})`;
+  if (forcedModel) {
+    reason = `forced via ${config.forceModel ? "request" : "ROUTER_FORCE_MODEL"}`;
+  } else if (affinity?.status === "reused") {
+    reason = `sticky for affinity key, ${reason}`;
+  }
 
-  // Save routing decision
-  const decision: RoutingDecision = {
+  return {
+    id: randomUUID(),
     timestamp: Date.now(),
     config,
     selectedModel: selected.model,
-    reason: `${selected.reason} (score: ${selected.score.toFixed(2)})`,
-    alternatives: alternatives.map((alt) => ({
-      model: alt.model,
-      score: alt.score,
-      reason: alt.reason,
-    })),
+    reason,
+    policyVersion: policy.version,
+    breakdown: selected.breakdown,
+    alternatives: [
+      ...alternatives.map((alt) => ({
+        model: alt.model,
+        score: alt.score,
+        reason: alt.reason,
+        breakdown: alt.breakdown,
+      })),
+      ...excluded.map((ex) => ({
+        model: ex.model,
+        score: 0,
+        reason: ex.reason,
+        excluded: true,
+      })),
+    ],
+    strategy: strategy.name,
+    exploration: ranking.exploration && selected === ranking.ranked[0],
+    forced: forcedModel ? true : undefined,
+    affinity,
+    budget: budget && {
+      tenant: budget.tenant,
+      status: budget.status,
+      spentUsd: budget.spentUsd,
+      periodKey: budget.periodKey,
+    },
+  };
+}
+
+// Select the best model for a given configuration. The decision id is used
+// to attach quality feedback once the output has been judged.
+export async function selectModel(
+  config: RouterConfig
+): Promise<{ model: string; decisionId: string }> {
+  const decision = await buildRoutingDecision(config);
+  await claimProbe(decision.selectedModel);
+  await savePin(decision);
+  await saveRoutingDecision(decision);
+  return { model: decision.selectedModel, decisionId: decision.id };
+}
+
+// Pin the selected model to the decision's affinity key (unless reused)
+async function savePin(decision: RoutingDecision): Promise<void> {
+  if (!decision.affinity || decision.affinity.status === "reused") return;
+  const pin = await pinAffinity(
+    decision.affinity.key,
+    decision.selectedModel,
+    decision.config.affinityTtlMs
+  );
+  decision.affinity.expiresAt = pin.expiresAt;
+}
+
+// Dry run of selectModel: returns the full decision without recording history
+// or claiming a half-open probe slot
+export async function explainRouting(
+  config: RouterConfig
+): Promise<RoutingDecision> {
+  return buildRoutingDecision(config);
+}
+
+// Overrides for offline routing simulation
+export interface SimulationOptions {
+  weights?: PriorityWeightOverrides; // Merged field by field over the active weights
+  strategy?: string;
+}
+
+// Pick a model for a config from given telemetry, without touching the store,
+// tenant budgets or circuit breakers (for offline replay). Null if nothing is eligible.
+export function simulateRouting(
+  config: RouterConfig,
+  telemetry: Record<string, ModelTelemetry>,
+  options: SimulationOptions = {}
+): { selectedModel: string; score: number; exploration: boolean } | null {
+  const policy = getRoutingPolicy();
+  const scoringPolicy = options.weights
+    ? { ...policy, weights: mergePriorityWeights(policy.weights, options.weights) }
+    : policy;
+  const eligible = listModels()
+    .map((definition) => definition.id)
+    .filter((model) => !getExclusionReason(model, config, {}));
+  if (eligible.length === 0) return null;
+
+  const scored = eligible.map((model) => ({
+    model,
+    ...calculateModelScore(
+      model,
+      telemetry[model] ?? initialTelemetry(model),
+      config,
+      scoringPolicy
+    ),
+  }));
+  const { ranked, exploration } = getStrategy(options.strategy).rank(scored, {
+    config,
+    telemetry,
+  });
+  return { selectedModel: ranked[0].model, score: ranked[0].score, exploration };
+}
+
+// Options for runWithRouter
+export interface RunWithRouterOptions {
+  timeoutMs?: number; // Per-attempt timeout; the attempt is aborted and the next model tried
+  maxAttempts?: number; // Cap on models tried (default: selected model + all alternatives)
+  hedge?: boolean | HedgeOptions; // Race a slow primary against the next-best model
+}
+
+// Increment a hedging counter in a model's telemetry
+async function recordHedgeEvent(
+  model: string,
+  counter: "hedgesLaunched" | "hedgeWins" | "abortedCalls"
+): Promise<void> {
+  try {
+    await getTelemetryStore().update<Record<string, ModelTelemetry>>(
+      TELEMETRY_KEY,
+      {},
+      (current) => {
+        const telemetry = syncWithRegistry(current);
+        if (telemetry[model]) telemetry[model][counter]++;
+        return telemetry;
+      }
+    );
+  } catch (error) {
+    console.warn("Failed to save telemetry:", error);
+  }
+}
+
+// Read `usage` from an AI SDK result, if the callback returned one
+function getResultUsage(result: unknown): TokenUsage | undefined {
+  if (result && typeof result === "object" && "usage" in result) {
+    return (result as { usage?: TokenUsage }).usage;
+  }
+  return undefined;
+}
+
+// Run a model call with automatic fallback to the ranked alternatives.
+// Records telemetry for every attempt and the final decision in routing history.
+// If fn returns an AI SDK result, its token `usage` is recorded as actual spend.
+// With `hedge`, a primary slower than its usual latency is raced against the next model.
+export async function runWithRouter<T>(
+  config: RouterConfig,
+  fn: (
+    model: string,
+    context: { signal: AbortSignal; attempt: number }
+  ) => Promise<T>,
+  options: RunWithRouterOptions = {}
+): Promise<{ result: T; model: string; decision: RoutingDecision }> {
+  const decision = await buildRoutingDecision(config);
+  // Forced decisions don't fall back, so failures of the forced model surface
+  const chain = [
+    { model: decision.selectedModel, reason: decision.reason },
+    ...decision.alternatives
+      .filter((alt) => !alt.excluded)
+      .map((alt) => ({
+        model: alt.model,
+        reason: `${alt.reason} (score: ${alt.score.toFixed(2)})`,
+      })),
+  ].slice(0, decision.forced ? 1 : options.maxAttempts ?? Infinity);
+
+  const attempts: RoutingAttempt[] = [];
+  decision.attempts = attempts;
+  let lastError: unknown;
+
+  const hedgeOptions: HedgeOptions | undefined =
+    options.hedge === true ? {} : options.hedge || undefined;
+  const telemetry = hedgeOptions ? await loadTelemetry() : {};
+  if (hedgeOptions && chain.length > 1) trackHedgeEligible();
+
+  // Start one call; the returned promise settles with its outcome and never rejects
+  const startCall = (model: string, attempt: number) => {
+    const controller = new AbortController();
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const call = (async () => {
+      await claimProbe(model);
+      const pending = fn(model, { signal: controller.signal, attempt });
+      return options.timeoutMs
+        ? Promise.race([
+            pending,
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => {
+                controller.abort();
+                reject(new RouterTimeoutError(model, options.timeoutMs!));
+              }, options.timeoutMs);
+            }),
+          ])
+        : pending;
+    })();
+    const done = call
+      .then((result) => ({ ok: true as const, result }))
+      .catch((error: unknown) => ({ ok: false as const, error }))
+      .then((outcome) => {
+        clearTimeout(timer);
+        return { ...outcome, latencyMs: Date.now() - startTime };
+      });
+    return { model, controller, done, startTime, hedged: false, aborted: false };
+  };
+  type Call = ReturnType<typeof startCall>;
+  type Outcome = Awaited<Call["done"]>;
+
+  // Record a settled call in telemetry and the decision's attempts
+  const recordOutcome = async (call: Call, outcome: Outcome) => {
+    if (call.aborted && !outcome.ok) {
+      await recordHedgeEvent(call.model, "abortedCalls");
+      return;
+    }
+    await updateTelemetry(call.model, outcome.latencyMs, outcome.ok, {
+      usage: outcome.ok ? getResultUsage(outcome.result) : undefined,
+      task: config.task,
+      tenant: config.tenant,
+    });
+    if (!call.aborted) {
+      attempts.push({
+        model: call.model,
+        success: outcome.ok,
+        latencyMs: outcome.latencyMs,
+        error: outcome.ok
+          ? undefined
+          : outcome.error instanceof Error
+            ? outcome.error.message
+            : String(outcome.error),
+        hedged: call.hedged || undefined,
+      });
+    }
+  };
+
+  let attempt = 0;
+  let hedgeDue = Boolean(hedgeOptions);
+  for (let index = 0; index < chain.length; ) {
+    const calls: Call[] = [startCall(chain[index].model, attempt++)];
+
+    // Hedge once per request: wait for the primary up to the hedge delay,
+    // then race it against the next model if the cost caps allow
+    const next = chain[index + 1];
+    const primaryDefinition = getModel(chain[index].model);
+    if (hedgeOptions && hedgeDue && next && primaryDefinition) {
+      hedgeDue = false;
+      const delayMs = getHedgeDelay(
+        primaryDefinition,
+        telemetry[chain[index].model],
+        hedgeOptions,
+        config.maxLatencyMs
+      );
+      let delayTimer: NodeJS.Timeout | undefined;
+      const settledFirst = await Promise.race([
+        calls[0].done.then(() => true),
+        new Promise<false>((resolve) => {
+          delayTimer = setTimeout(() => resolve(false), delayMs);
+        }),
+      ]);
+      clearTimeout(delayTimer);
+
+      if (!settledFirst) {
+        const nextDefinition = getModel(next.model);
+        const skipped = nextDefinition
+          ? checkHedgeBudget(
+              nextDefinition,
+              telemetry[next.model],
+              hedgeOptions,
+              config.estimatedInputTokens
+            )
+          : "unknown model";
+        decision.hedge = {
+          delayMs,
+          launched: !skipped,
+          skipped: skipped ?? undefined,
+        };
+        if (!skipped) {
+          const hedge = startCall(next.model, attempt++);
+          hedge.hedged = true;
+          calls.push(hedge);
+          await recordHedgeEvent(next.model, "hedgesLaunched");
+        }
+      }
+    }
+
+    // Take the first successful call (or wait for all to fail)
+    const won = await new Promise<{ call: Call; result: T } | null>(
+      (resolve) => {
+        let pending = calls.length;
+        calls.forEach((call) =>
+          call.done.then((outcome) => {
+            if (outcome.ok) resolve({ call, result: outcome.result });
+            else if (--pending === 0) resolve(null);
+          })
+        );
+      }
+    );
+    const winner = won?.call;
+
+    // Abort the losers; their telemetry is recorded whenever they settle
+    for (const call of calls) {
+      if (winner && call !== winner) {
+        call.aborted = true;
+        call.controller.abort();
+        attempts.push({
+          model: call.model,
+          success: false,
+          latencyMs: Date.now() - call.startTime,
+          hedged: call.hedged || undefined,
+          aborted: true,
+        });
+        void call.done.then((outcome) => recordOutcome(call, outcome));
+      } else {
+        const outcome = await call.done;
+        await recordOutcome(call, outcome);
+        if (!outcome.ok) lastError = outcome.error;
+      }
+    }
+
+    if (won && winner) {
+      const winnerIndex = chain.findIndex((c) => c.model === winner.model);
+      if (decision.hedge?.launched) {
+        decision.hedge.winner = winner.hedged ? "hedge" : "primary";
+        if (winner.hedged) await recordHedgeEvent(winner.model, "hedgeWins");
+      }
+      if (winnerIndex > 0) {
+        decision.selectedModel = winner.model;
+        decision.reason = winner.hedged
+          ? `${chain[winnerIndex].reason}, hedge won`
+          : `${chain[winnerIndex].reason}, fallback after ${winnerIndex} failed attempt(s)`;
+      }
+      await savePin(decision);
+      await saveRoutingDecision(decision);
+
+      return { result: won.result, model: winner.model, decision };
+    }
+
+    index += calls.length;
+  }
+
+  await saveRoutingDecision(decision);
+  throw new FallbackExhaustedError(decision, lastError);
+}
+
+// Telemetry snapshot for export/import between environments. Entries are
+// validated field by field; telemetry and breaker fields missing from older
+// snapshots are filled with their initial values on import.
+const NumberRecordSchema = z.record(z.string(), z.number());
+
+const ModelTelemetrySchema = z
+  .object({
+    model: z.string(),
+    latencyMs: z.number(),
+    costPer1kTokens: z.number(),
+    successRate: z.number().min(0).max(1),
+    capabilityTier: z.nativeEnum(CapabilityTier),
+    lastUpdated: z.number(),
+    callCount: z.number().int().nonnegative(),
+    avgLatencyMs: z.number(),
+    recentCalls: z.array(
+      z.object({ timestamp: z.number(), latencyMs: z.number(), success: z.boolean() })
+    ),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    totalCostUsd: z.number(),
+    costByTask: NumberRecordSchema,
+    costByDay: NumberRecordSchema,
+    hedgesLaunched: z.number(),
+    hedgeWins: z.number(),
+    abortedCalls: z.number(),
+    qualityByTask: z.record(
+      z.string(),
+      z.object({ samples: z.number(), totalValue: z.number(), lastFeedbackAt: z.number() })
+    ),
+  })
+  .partial()
+  .required({ model: true, callCount: true });
+
+const ScoreBreakdownSchema = z.object({
+  baseScore: z.number(),
+  tierPenalty: z.number(),
+  latencyPenalty: z.number(),
+  costScore: z.number().nullable(),
+  speedScore: z.number().nullable(),
+  qualityScore: z.number().nullable(),
+  observedQuality: z.number().nullable(),
+  weights: z.object({
+    base: z.number(),
+    cost: z.number(),
+    speed: z.number(),
+    quality: z.number(),
+  }),
+  successRatePenalty: z.number(),
+  recencyBonus: z.number(),
+  total: z.number(),
+});
+
+// Tasks are checked against this environment's policy when routing, not on import
+const RoutingDecisionSchema = z.object({
+  id: z.string(),
+  timestamp: z.number(),
+  config: RouterConfigSchema.extend({ task: z.string() }),
+  selectedModel: z.string(),
+  reason: z.string(),
+  policyVersion: z.string().optional(),
+  breakdown: ScoreBreakdownSchema.optional(),
+  alternatives: z.array(
+    z.object({
+      model: z.string(),
+      score: z.number(),
+      reason: z.string(),
+      breakdown: ScoreBreakdownSchema.optional(),
+      excluded: z.boolean().optional(),
+    })
+  ),
+  attempts: z
+    .array(
+      z.object({
+        model: z.string(),
+        success: z.boolean(),
+        latencyMs: z.number(),
+        error: z.string().optional(),
+        hedged: z.boolean().optional(),
+        aborted: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  strategy: z.string().optional(),
+  exploration: z.boolean().optional(),
+  budget: z
+    .object({
+      tenant: z.string(),
+      status: z.enum(["ok", "soft_exceeded", "hard_exceeded"]),
+      spentUsd: z.number(),
+      periodKey: z.string(),
+    })
+    .optional(),
+  forced: z.boolean().optional(),
+  hedge: z
+    .object({
+      delayMs: z.number(),
+      launched: z.boolean(),
+      winner: z.enum(["primary", "hedge"]).optional(),
+      skipped: z.string().optional(),
+    })
+    .optional(),
+  affinity: z
+    .object({
+      key: z.string(),
+      status: z.enum(["reused", "new", "repinned"]),
+      expiresAt: z.number().optional(),
+    })
+    .optional(),
+  feedback: z
+    .array(
+      z.object({
+        signal: z.enum(QUALITY_SIGNALS),
+        source: z.string().optional(),
+        note: z.string().optional(),
+        timestamp: z.number(),
+      })
+    )
+    .optional(),
+});
+
+const CircuitBreakerSchema = z
+  .object({
+    model: z.string(),
+    state: z.enum(["closed", "open", "half_open"]),
+    consecutiveFailures: z.number().int().nonnegative(),
+    openedAt: z.number().nullable(),
+    closedAt: z.number(),
+    probeStartedAt: z.number().nullable(),
+    lastFailureAt: z.number().nullable(),
+  })
+  .partial()
+  .required({ model: true, state: true });
+
+export const TelemetrySnapshotSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string(),
+  telemetry: z.record(z.string(), ModelTelemetrySchema),
+  history: z.array(RoutingDecisionSchema),
+  breakers: z.record(z.string(), CircuitBreakerSchema),
+});
+
+export interface TelemetrySnapshot {
+  version: 1;
+  exportedAt: string;
+  telemetry: Record<string, ModelTelemetry>;
+  history: RoutingDecision[];
+  breakers: Record<string, CircuitBreaker>;
+}
+
+// Export telemetry, routing history and circuit breakers
+export async function exportTelemetrySnapshot(): Promise<TelemetrySnapshot> {
+  const [telemetry, history, breakers] = await Promise.all([
+    loadTelemetry(),
+    loadRoutingHistory(),
+    loadBreakers(),
+  ]);
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    telemetry,
+    history,
+    breakers,
+  };
+}
+
+// Replace telemetry, routing history and circuit breakers with a snapshot
+export async function importTelemetrySnapshot(
+  snapshot: z.infer<typeof TelemetrySnapshotSchema>
+): Promise<{ models: number; decisions: number }> {
+  const telemetry = Object.fromEntries(
+    Object.entries(snapshot.telemetry).map(([model, entry]) => [
+      model,
+      { ...initialTelemetry(model), ...entry },
+    ])
+  );
+  const breakers = Object.fromEntries(
+    Object.entries(snapshot.breakers).map(([model, breaker]) => [
+      model,
+      { ...initialBreaker(model), ...breaker },
+    ])
+  );
+  const store = getTelemetryStore();
+  await store.set(TELEMETRY_KEY, syncWithRegistry(telemetry));
+  await store.set<RoutingDecision[]>(HISTORY_KEY, snapshot.history.slice(-HISTORY_LIMIT));
+  await store.set<Record<string, CircuitBreaker>>(BREAKERS_KEY, breakers);
+  return {
+    models: Object.keys(snapshot.telemetry).length,
+    decisions: Math.min(snapshot.history.length, HISTORY_LIMIT),
   };
-  saveRoutingDecision(decision);
+}
 
-  return selected.model;
+// Reset telemetry and circuit breakers for one model, or for all models
+// (which also clears routing history)
+export async function resetTelemetry(model?: string): Promise<void> {
+  const store = getTelemetryStore();
+  await store.update<Record<string, ModelTelemetry>>(
+    TELEMETRY_KEY,
+    {},
+    (telemetry) => {
+      if (!model) return syncWithRegistry({});
+      telemetry[model] = initialTelemetry(model);
+      return syncWithRegistry(telemetry);
+    }
+  );
+  await store.update<Record<string, CircuitBreaker>>(
+    BREAKERS_KEY,
+    {},
+    (breakers) => {
+      if (!model) return {};
+      delete breakers[model];
+      return breakers;
+    }
+  );
+  if (!model) {
+    await store.set(HISTORY_KEY, []);
+    await store.set(FEEDBACK_KEY, []);
+  }
+}
+
+// Drop window samples and routing decisions older than a timestamp, for one
+// model or all models
+export async function pruneTelemetry(
+  before: number,
+  model?: string
+): Promise<{ samples: number; decisions: number }> {
+  const store = getTelemetryStore();
+  let samples = 0;
+  let decisions = 0;
+  await store.update<Record<string, ModelTelemetry>>(
+    TELEMETRY_KEY,
+    {},
+    (current) => {
+      const telemetry = syncWithRegistry(current);
+      Object.values(telemetry)
+        .filter((entry) => !model || entry.model === model)
+        .forEach((entry) => {
+          const kept = entry.recentCalls.filter((call) => call.timestamp >= before);
+          samples += entry.recentCalls.length - kept.length;
+          entry.recentCalls = kept;
+        });
+      return telemetry;
+    }
+  );
+  await store.update<RoutingDecision[]>(HISTORY_KEY, [], (history) => {
+    const kept = history.filter(
+      (decision) =>
+        decision.timestamp >= before ||
+        (model !== undefined && decision.selectedModel !== model)
+    );
+    decisions = history.length - kept.length;
+    return kept;
+  });
+  return { samples, decisions };
 }
 
 // Get routing statistics
-export function getRoutingStats() {
-  const history = loadRoutingHistory();
-  const telemetry = loadTelemetry();
+export async function getRoutingStats() {
+  const [history, telemetry, breakers, tenantBudgets] = await Promise.all([
+    loadRoutingHistory(),
+    loadTelemetry(),
+    loadBreakers(),
+    listTenantBudgetStates(),
+  ]);
 
   // Model usage counts
   const modelUsage: Record<string, number> = {};
@@ -383,26 +1556,105 @@ export function getRoutingStats() {
       (priorityDistribution[decision.config.priority] || 0) + 1;
   });
 
+  // Strategy usage, exploration picks and overrides
+  const strategyDistribution: Record<string, number> = {};
+  let explorationCount = 0;
+  let forcedCount = 0;
+  let stickyCount = 0;
+  let hedgedCount = 0;
+  let hedgeWinCount = 0;
+  history.forEach((decision) => {
+    const strategy = decision.strategy || "heuristic";
+    strategyDistribution[strategy] = (strategyDistribution[strategy] || 0) + 1;
+    if (decision.exploration) explorationCount++;
+    if (decision.forced) forcedCount++;
+    if (decision.affinity?.status === "reused") stickyCount++;
+    if (decision.hedge?.launched) hedgedCount++;
+    if (decision.hedge?.winner === "hedge") hedgeWinCount++;
+  });
+
+  // Routing policy versions used
+  const policyVersionDistribution: Record<string, number> = {};
+  history.forEach((decision) => {
+    const version = decision.policyVersion || "builtin";
+    policyVersionDistribution[version] =
+      (policyVersionDistribution[version] || 0) + 1;
+  });
+
   // Average latency by model
   const avgLatencyByModel: Record<string, number> = {};
   Object.entries(telemetry).forEach(([model, data]) => {
     avgLatencyByModel[model] = data.avgLatencyMs;
   });
 
-  // Cost estimates (simplified)
-  const estimatedCostByModel: Record<string, number> = {};
+  // Rolling-window percentiles and error rates by model
+  const windowStatsByModel: Record<string, WindowStats | null> = {};
   Object.entries(telemetry).forEach(([model, data]) => {
-    estimatedCostByModel[model] = data.callCount * data.costPer1kTokens * 0.1; // Assume ~100 tokens per call
+    windowStatsByModel[model] = computeWindowStats(data.recentCalls);
   });
 
+  // Circuit breaker state by model (as seen now)
+  const breakersByModel: Record<
+    string,
+    CircuitBreaker & { effectiveState: BreakerState }
+  > = {};
+  Object.keys(telemetry).forEach((model) => {
+    const breaker = breakers[model] ?? initialBreaker(model);
+    breakersByModel[model] = {
+      ...breaker,
+      effectiveState: getBreakerState(breaker),
+    };
+  });
+
+  // Actual spend from recorded token usage
+  const costByModel: Record<string, number> = {};
+  const costByTask: Record<string, number> = {};
+  const costByDay: Record<string, number> = {};
+  const tokensByModel: Record<string, { input: number; output: number }> = {};
+  Object.entries(telemetry).forEach(([model, data]) => {
+    costByModel[model] = data.totalCostUsd;
+    tokensByModel[model] = { input: data.inputTokens, output: data.outputTokens };
+    Object.entries(data.costByTask).forEach(([task, cost]) => {
+      costByTask[task] = (costByTask[task] || 0) + cost;
+    });
+    Object.entries(data.costByDay).forEach(([day, cost]) => {
+      costByDay[day] = (costByDay[day] || 0) + cost;
+    });
+  });
+
+  // Time span of the retained history
+  const historyRange =
+    history.length > 0
+      ? {
+          start: Math.min(...history.map((decision) => decision.timestamp)),
+          end: Math.max(...history.map((decision) => decision.timestamp)),
+        }
+      : null;
+
   return {
     totalDecisions: history.length,
+    historyRange,
     modelUsage,
     taskDistribution,
     priorityDistribution,
+    strategyDistribution,
+    explorationCount,
+    forcedCount,
+    stickyCount,
+    hedgedCount,
+    hedgeWinCount,
+    policyVersion: getRoutingPolicy().version,
+    policyVersionDistribution,
     avgLatencyByModel,
-    estimatedCostByModel,
+    windowStatsByModel,
+    breakersByModel,
+    tenantBudgets,
+    costByModel,
+    costByTask,
+    costByDay,
+    tokensByModel,
     recentDecisions: history.slice(-10), // Last 10 decisions
     telemetry: Object.values(telemetry),
+    models: listModels({ includeRetired: true }),
   };
 }
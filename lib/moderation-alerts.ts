@@ -0,0 +1,359 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { moderationMetrics } from "./moderation-metrics";
+import type { Severity } from "./moderation-policy";
+
+export const ALERT_CONFIG = {
+  CONFIG_PATH: process.env.MODERATION_ALERTS_PATH, // Sinks and routes (JSON); console only when unset
+  DEDUPE_WINDOW_MS: parseInt(process.env.MODERATION_ALERT_DEDUPE_SECONDS || "300") * 1000, // Same content alerted once per window
+  WEBHOOK_SECRET: process.env.MODERATION_ALERT_WEBHOOK_SECRET, // Default HMAC secret for webhook sinks
+  TIMEOUT_MS: 5000, // Per delivery attempt
+};
+
+// Payload delivered to every sink
+export type ModerationAlert = {
+  id: string;
+  timestamp: string;
+  contentHash: string; // sha256 of the normalized message, used for dedupe
+  severity: Severity;
+  action: string;
+  policy: string;
+  decidedBy: string;
+  riskScore: number;
+  categories: string[];
+  language: string;
+  message: string; // Truncated
+  reasoning: string;
+};
+
+export interface AlertSink {
+  name: string;
+  send(alert: ModerationAlert): Promise<void>;
+}
+
+// Console sink: the original alert behavior
+export class ConsoleAlertSink implements AlertSink {
+  name = "console";
+
+  async send(alert: ModerationAlert): Promise<void> {
+    console.error("🚨 MODERATION ALERT:", JSON.stringify(alert, null, 2));
+  }
+}
+
+// In-memory sink (for tests)
+export class MemoryAlertSink implements AlertSink {
+  alerts: ModerationAlert[] = [];
+
+  constructor(public name = "memory") {}
+
+  async send(alert: ModerationAlert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+// JSON Lines file sink, one alert per line
+export class FileAlertSink implements AlertSink {
+  name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${filePath}`;
+  }
+
+  async send(alert: ModerationAlert): Promise<void> {
+    const resolved = path.resolve(process.cwd(), this.filePath);
+    await fs.promises.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.promises.appendFile(resolved, JSON.stringify(alert) + "\n");
+  }
+}
+
+type RetryOptions = { retries?: number; retryDelayMs?: number };
+
+// POST with exponential backoff on network errors, 429 and 5xx
+async function postWithRetry(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  { retries = 3, retryDelayMs = 500 }: RetryOptions
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    let retryable = true;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body,
+        signal: AbortSignal.timeout(ALERT_CONFIG.TIMEOUT_MS),
+      });
+      if (response.ok) return;
+      retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= retries) {
+        throw new Error(`Alert delivery failed with status ${response.status}`);
+      }
+    } catch (error) {
+      if (!retryable || attempt >= retries) throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+  }
+}
+
+// Signature sent as `x-moderation-signature: sha256=<hex>` over
+// `<timestamp>.<body>`, with the timestamp in `x-moderation-timestamp`
+export function signAlert(secret: string, timestamp: string, body: string): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+// For receivers: check a signature in constant time
+export function verifyAlertSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signAlert(secret, timestamp, body));
+  const provided = Buffer.from(signature);
+  return (
+    expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided)
+  );
+}
+
+// HTTP webhook sink: the alert as JSON, HMAC-signed when a secret is set
+export class WebhookAlertSink implements AlertSink {
+  name: string;
+
+  constructor(
+    private url: string,
+    private secret?: string,
+    private retry: RetryOptions = {}
+  ) {
+    this.name = `webhook:${new URL(url).host}`;
+  }
+
+  async send(alert: ModerationAlert): Promise<void> {
+    const body = JSON.stringify(alert);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = { "x-moderation-timestamp": timestamp };
+    if (this.secret) {
+      headers["x-moderation-signature"] = signAlert(this.secret, timestamp, body);
+    }
+    await postWithRetry(this.url, body, headers, this.retry);
+  }
+}
+
+const SEVERITY_EMOJI: Record<Severity, string> = {
+  safe: "ℹ️",
+  warning: "⚠️",
+  critical: "🚨",
+};
+
+// Slack incoming-webhook sink (also accepted by Slack-compatible chat tools)
+export class SlackAlertSink implements AlertSink {
+  name: string;
+
+  constructor(
+    private url: string,
+    private retry: RetryOptions = {}
+  ) {
+    this.name = `slack:${new URL(url).host}`;
+  }
+
+  async send(alert: ModerationAlert): Promise<void> {
+    const categories = alert.categories.length ? alert.categories.join(", ") : "none";
+    const text = [
+      `${SEVERITY_EMOJI[alert.severity]} *Moderation alert: ${alert.severity}* (${alert.action}, risk ${alert.riskScore})`,
+      `*Categories:* ${categories} · *Policy:* ${alert.policy} · *Decided by:* ${alert.decidedBy}`,
+      `> ${alert.message.replace(/\n/g, "\n> ")}`,
+      alert.reasoning,
+    ].join("\n");
+    await postWithRetry(this.url, JSON.stringify({ text }), {}, this.retry);
+  }
+}
+
+// Which alerts a sink receives
+export type AlertRoute = {
+  minSeverity?: Severity; // Default: every alert
+  categories?: string[]; // Only alerts with one of these categories
+};
+
+const SEVERITY_RANK: Record<Severity, number> = { safe: 0, warning: 1, critical: 2 };
+
+const routes: Array<{ sink: AlertSink; route: AlertRoute }> = [];
+const recentAlerts = new Map<string, number>(); // contentHash -> last dispatched at
+
+export function registerAlertSink(sink: AlertSink, route: AlertRoute = {}): void {
+  routes.push({ sink, route });
+}
+
+// Remove every sink and forget deduplicated content
+export function clearAlertSinks(): void {
+  routes.length = 0;
+  recentAlerts.clear();
+}
+
+export function listAlertSinks(): Array<{ name: string } & AlertRoute> {
+  return routes.map(({ sink, route }) => ({ name: sink.name, ...route }));
+}
+
+function matchesRoute(alert: ModerationAlert, route: AlertRoute): boolean {
+  if (route.minSeverity && SEVERITY_RANK[alert.severity] < SEVERITY_RANK[route.minSeverity]) {
+    return false;
+  }
+  if (route.categories?.length) {
+    return alert.categories.some((category) => route.categories!.includes(category));
+  }
+  return true;
+}
+
+export function contentHash(message: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(message.trim().toLowerCase())
+    .digest("hex");
+}
+
+// Build the alert for a flagged result
+export function createAlert(
+  message: string,
+  result: Omit<ModerationAlert, "id" | "timestamp" | "contentHash" | "message">
+): ModerationAlert {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    contentHash: contentHash(message),
+    ...result,
+    message: message.substring(0, 500), // Truncate for logging
+  };
+}
+
+// Send an alert to every sink whose route matches. Repeats of the same
+// content within the dedupe window are dropped once a sink has accepted it,
+// so content no sink accepted is alerted again. Never throws: sink failures
+// are logged and counted.
+export async function dispatchAlert(
+  alert: ModerationAlert
+): Promise<{ deduped: boolean; sent: string[]; failed: string[] }> {
+  const now = Date.now();
+  for (const [hash, sentAt] of recentAlerts) {
+    if (now - sentAt >= ALERT_CONFIG.DEDUPE_WINDOW_MS) recentAlerts.delete(hash);
+  }
+  if (recentAlerts.has(alert.contentHash)) {
+    moderationMetrics.alerts.inc({ sink: "all", outcome: "deduped" });
+    return { deduped: true, sent: [], failed: [] };
+  }
+  // Held while delivering so concurrent repeats are dropped too
+  recentAlerts.set(alert.contentHash, now);
+
+  const targets = routes.filter(({ route }) => matchesRoute(alert, route));
+  const outcomes = await Promise.allSettled(
+    targets.map(({ sink }) => sink.send(alert))
+  );
+
+  const sent: string[] = [];
+  const failed: string[] = [];
+  outcomes.forEach((outcome, i) => {
+    const { name } = targets[i].sink;
+    if (outcome.status === "fulfilled") {
+      sent.push(name);
+    } else {
+      failed.push(name);
+      console.warn(`Failed to deliver moderation alert to ${name}:`, outcome.reason);
+    }
+    moderationMetrics.alerts.inc({
+      sink: name,
+      outcome: outcome.status === "fulfilled" ? "sent" : "failed",
+    });
+  });
+  if (sent.length === 0 && recentAlerts.get(alert.contentHash) === now) {
+    recentAlerts.delete(alert.contentHash);
+  }
+  return { deduped: false, sent, failed };
+}
+
+const RouteSchema = {
+  minSeverity: z.enum(["safe", "warning", "critical"]).optional(),
+  categories: z.array(z.string().min(1)).optional(),
+};
+const RetrySchema = {
+  retries: z.number().int().nonnegative().optional(),
+  retryDelayMs: z.number().int().nonnegative().optional(),
+};
+
+// Alert config file: { "sinks": [{ "type": "webhook", "url": "...", "minSeverity": "critical" }, ...] }
+export const AlertConfigSchema = z.object({
+  sinks: z.array(
+    z.discriminatedUnion("type", [
+      z.object({ type: z.literal("console"), ...RouteSchema }),
+      z.object({ type: z.literal("file"), path: z.string().min(1), ...RouteSchema }),
+      z.object({
+        type: z.literal("webhook"),
+        url: z.string().url(),
+        secret: z.string().min(1).optional(), // Falls back to MODERATION_ALERT_WEBHOOK_SECRET
+        ...RouteSchema,
+        ...RetrySchema,
+      }),
+      z.object({
+        type: z.literal("slack"),
+        url: z.string().url(),
+        ...RouteSchema,
+        ...RetrySchema,
+      }),
+    ])
+  ),
+});
+
+export type AlertConfig = z.infer<typeof AlertConfigSchema>;
+
+// Replace the registered sinks with the ones in a config
+export function configureAlertSinks(input: unknown): void {
+  const config = AlertConfigSchema.parse(input);
+  clearAlertSinks();
+  for (const sinkConfig of config.sinks) {
+    const { minSeverity, categories } = sinkConfig;
+    const route = { minSeverity, categories };
+    switch (sinkConfig.type) {
+      case "console":
+        registerAlertSink(new ConsoleAlertSink(), route);
+        break;
+      case "file":
+        registerAlertSink(new FileAlertSink(sinkConfig.path), route);
+        break;
+      case "webhook":
+        registerAlertSink(
+          new WebhookAlertSink(
+            sinkConfig.url,
+            sinkConfig.secret ?? ALERT_CONFIG.WEBHOOK_SECRET,
+            sinkConfig
+          ),
+          route
+        );
+        break;
+      case "slack":
+        registerAlertSink(new SlackAlertSink(sinkConfig.url, sinkConfig), route);
+        break;
+    }
+  }
+}
+
+function initAlerts() {
+  registerAlertSink(new ConsoleAlertSink());
+  if (ALERT_CONFIG.CONFIG_PATH) {
+    try {
+      const resolved = path.resolve(process.cwd(), ALERT_CONFIG.CONFIG_PATH);
+      configureAlertSinks(JSON.parse(fs.readFileSync(resolved, "utf-8")));
+      console.log(
+        `✅ Loaded alert sinks ${listAlertSinks().map((s) => s.name).join(", ")} from ${ALERT_CONFIG.CONFIG_PATH}`
+      );
+    } catch (error) {
+      console.warn(`Failed to load alert sinks from ${ALERT_CONFIG.CONFIG_PATH}:`, error);
+    }
+  }
+}
+
+// Initialize on module load
+initAlerts();
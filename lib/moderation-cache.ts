@@ -1,7 +1,7 @@
 import crypto from "crypto";
 
 // Lightweight cache interface - works with or without Redis
-interface CacheAdapter {
+export interface CacheAdapter {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, ttlSeconds?: number): Promise<void>;
   del(key: string): Promise<void>;
@@ -22,6 +22,8 @@ class MemoryCache implements CacheAdapter {
         }
       }
     }, 5 * 60 * 1000);
+    // Don't keep scripts that import the cache (e.g. CLI tools) alive
+    this.cleanupInterval.unref();
   }
 
   async get(key: string): Promise<string | null> {
@@ -54,7 +56,7 @@ class MemoryCache implements CacheAdapter {
 }
 
 // Redis cache adapter (optional, requires @upstash/redis)
-class RedisCache implements CacheAdapter {
+export class RedisCache implements CacheAdapter {
   private client: any;
 
   constructor(redisUrl?: string, redisToken?: string) {
@@ -93,6 +95,21 @@ class RedisCache implements CacheAdapter {
     }
   }
 
+  // Set only if the key is absent (used for distributed locks)
+  async setIfNotExists(
+    key: string,
+    value: string,
+    ttlSeconds = 3600
+  ): Promise<boolean> {
+    if (!this.client) return false;
+    try {
+      return (await this.client.set(key, value, { nx: true, ex: ttlSeconds })) === "OK";
+    } catch (error) {
+      console.warn("Redis set error:", error);
+      return false;
+    }
+  }
+
   async del(key: string): Promise<void> {
     if (!this.client) return;
     try {
@@ -101,8 +118,27 @@ class RedisCache implements CacheAdapter {
       console.warn("Redis del error:", error);
     }
   }
+
+  // Delete only if the key still holds value, atomically (releases a lock
+  // without deleting one another process acquired after it expired)
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    if (!this.client) return false;
+    try {
+      return (await this.client.eval(DEL_IF_EQUALS_SCRIPT, [key], [value])) === 1;
+    } catch (error) {
+      console.warn("Redis del error:", error);
+      return false;
+    }
+  }
 }
 
+const DEL_IF_EQUALS_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
 // Initialize cache adapter (Redis if configured, otherwise memory)
 let cacheAdapter: CacheAdapter;
 
@@ -126,12 +162,16 @@ if (typeof cacheAdapter === "undefined") {
   initCache();
 }
 
-// Generate cache key from message
-export function getCacheKey(message: string, locale?: string): string {
+// Generate cache key from message (and the moderation policy version)
+export function getCacheKey(
+  message: string,
+  locale?: string,
+  policy?: string
+): string {
   const normalized = message.trim().toLowerCase();
   const hash = crypto
     .createHash("sha256")
-    .update(normalized + (locale || ""))
+    .update(normalized + (locale || "") + (policy ? `|${policy}` : ""))
     .digest("hex");
   return `moderation:${hash}`;
 }
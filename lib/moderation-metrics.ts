@@ -0,0 +1,72 @@
+import { counter, histogram, type Counter } from "./metrics-registry";
+
+// Moderation metrics, exported by /api/metrics and summarized by GET /api/moderation
+export const moderationMetrics = {
+  requests: counter("moderation_requests", "Messages moderated by a model (cache hits excluded)."),
+  flagged: counter("moderation_flagged", "Moderated messages flagged for review."),
+  cacheHits: counter("moderation_cache_hits", "Moderation results served from the cache."),
+  cacheMisses: counter("moderation_cache_misses", "Moderation cache lookups that missed."),
+  severity: counter("moderation_severity", "Moderated messages by severity."),
+  language: counter("moderation_language", "Moderated messages by detected language."),
+  latency: histogram("moderation_latency_seconds", "Moderation latency, including routing and fallbacks."),
+  decisions: counter("moderation_decisions", "Moderation verdicts by the layer that decided (prefilter, cache, model)."),
+  prefilterHits: counter("moderation_prefilter_hits", "Pre-filter rule matches, by rule and category."),
+  alerts: counter("moderation_alerts", "Alert deliveries by sink and outcome (sent, failed, deduped)."),
+  reviews: counter("moderation_reviews", "Human review queue activity (queued, approved, overturned)."),
+  riskScore: histogram(
+    "moderation_risk_score",
+    "Risk score (0-100) of moderated messages.",
+    [10, 25, 50, 75, 90, 100]
+  ),
+};
+
+// Record a message moderated by a model
+export function recordModeration(
+  result: { flagged: boolean; severity: string; language: string; riskScore: number },
+  latencyMs: number
+): void {
+  moderationMetrics.requests.inc();
+  if (result.flagged) moderationMetrics.flagged.inc();
+  moderationMetrics.severity.inc({ severity: result.severity });
+  moderationMetrics.language.inc({ language: result.language });
+  moderationMetrics.latency.observe(latencyMs / 1000);
+  moderationMetrics.riskScore.observe(result.riskScore);
+}
+
+// Distribution of a labelled counter as { labelValue: count }
+function distribution(
+  metric: Counter,
+  label: string
+): Record<string, number> {
+  return Object.fromEntries(
+    metric.values().map(({ labels, value }) => [labels[label], value])
+  );
+}
+
+// Moderation metrics in the JSON shape returned by the moderation API
+export function getModerationSummary() {
+  const totalRequests = moderationMetrics.requests.get();
+  const flaggedCount = moderationMetrics.flagged.get();
+  const cacheHits = moderationMetrics.cacheHits.get();
+  const cacheMisses = moderationMetrics.cacheMisses.get();
+  const latency = moderationMetrics.latency.get();
+  const riskScore = moderationMetrics.riskScore.get();
+
+  return {
+    totalRequests,
+    flaggedCount,
+    cacheHits,
+    cacheMisses,
+    severityDistribution: distribution(moderationMetrics.severity, "severity"),
+    languageDistribution: distribution(moderationMetrics.language, "language"),
+    layerDistribution: distribution(moderationMetrics.decisions, "layer"),
+    prefilterHits: distribution(moderationMetrics.prefilterHits, "rule"),
+    avgLatencyMs: latency.count > 0 ? (latency.sum / latency.count) * 1000 : 0,
+    avgRiskScore: riskScore.count > 0 ? riskScore.sum / riskScore.count : 0,
+    flaggedRate: totalRequests > 0 ? (flaggedCount / totalRequests).toFixed(2) : "0",
+    cacheHitRate:
+      cacheHits + cacheMisses > 0
+        ? (cacheHits / (cacheHits + cacheMisses)).toFixed(2)
+        : "0",
+  };
+}
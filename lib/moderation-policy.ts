@@ -0,0 +1,278 @@
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import type { PrefilterHit } from "./moderation-prefilter";
+
+export const CATEGORY_ACTIONS = ["allow", "flag", "block"] as const;
+export type CategoryAction = (typeof CATEGORY_ACTIONS)[number];
+export type Severity = "safe" | "warning" | "critical";
+
+const PolicyCategorySchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "Use snake_case category ids")
+    .describe("Returned in `categories`"),
+  description: z.string().min(1).describe("What the model looks for"),
+  action: z.enum(CATEGORY_ACTIONS).default("flag"),
+});
+
+// Moderation policy: the categories a community moderates, what happens when
+// one applies, and where riskScore turns into warning and critical severity
+export const ModerationPolicySchema = z.object({
+  id: z.string().min(1),
+  version: z.string().min(1).default("1").describe("Returned with each result"),
+  description: z.string().optional(),
+  categories: z
+    .array(PolicyCategorySchema)
+    .min(1)
+    .refine(
+      (categories) =>
+        new Set(categories.map((c) => c.id)).size === categories.length,
+      "Category ids must be unique"
+    ),
+  thresholds: z
+    .object({
+      warning: z.number().min(0).max(100).default(30), // riskScore at or above: warning
+      critical: z.number().min(0).max(100).default(70), // riskScore at or above: critical
+    })
+    .default({})
+    .refine((t) => t.warning <= t.critical, "warning must not exceed critical"),
+  instructions: z
+    .string()
+    .optional()
+    .describe("Community rules appended to the prompt"),
+});
+
+export type ModerationPolicy = z.infer<typeof ModerationPolicySchema>;
+export type ModerationPolicyInput = z.input<typeof ModerationPolicySchema>;
+
+export class UnknownModerationPolicyError extends Error {
+  constructor(public policyId: string) {
+    super(`Unknown moderation policy: ${policyId}`);
+    this.name = "UnknownModerationPolicyError";
+  }
+}
+
+// Built-in policy: the categories moderated before policies existed
+export const DEFAULT_MODERATION_POLICY = ModerationPolicySchema.parse({
+  id: "default",
+  version: "builtin",
+  categories: [
+    { id: "spam", description: "Spam or promotional content" },
+    { id: "violence", description: "Violence or threats" },
+    { id: "hate_speech", description: "Hate speech or discrimination" },
+    { id: "harassment", description: "Harassment or bullying" },
+    { id: "pii", description: "Personally Identifiable Information (PII)" },
+    { id: "explicit_content", description: "Explicit or adult content" },
+    { id: "misinformation", description: "Misinformation or false claims" },
+    { id: "self_harm", description: "Self-harm or suicide references" },
+    { id: "other", description: "Other policy violations" },
+  ],
+});
+
+const policies = new Map<string, ModerationPolicy>([
+  [DEFAULT_MODERATION_POLICY.id, DEFAULT_MODERATION_POLICY],
+]);
+
+// Add or replace a policy
+export function registerModerationPolicy(
+  input: ModerationPolicyInput
+): ModerationPolicy {
+  const policy = ModerationPolicySchema.parse(input);
+  policies.set(policy.id, policy);
+  return policy;
+}
+
+// Load policies from a JSON file holding an array of policies
+export function loadModerationPolicies(filePath: string): ModerationPolicy[] {
+  const raw = JSON.parse(
+    fs.readFileSync(path.resolve(process.cwd(), filePath), "utf-8")
+  );
+  // Validate all before registering any, so a bad file changes nothing
+  const loaded = z.array(ModerationPolicySchema).parse(raw);
+  loaded.forEach((policy) => policies.set(policy.id, policy));
+  return loaded;
+}
+
+// Policy by id; MODERATION_DEFAULT_POLICY (or the built-in one) when omitted
+export function getModerationPolicy(id?: string): ModerationPolicy {
+  const policyId = id ?? process.env.MODERATION_DEFAULT_POLICY ?? "default";
+  const policy = policies.get(policyId);
+  if (!policy) throw new UnknownModerationPolicyError(policyId);
+  return policy;
+}
+
+// Results are cached per policy version, so editing a policy invalidates them
+export function policyKey(policy: Pick<ModerationPolicy, "id" | "version">): string {
+  return `${policy.id}@${policy.version}`;
+}
+
+export function listModerationPolicies(): ModerationPolicy[] {
+  return [...policies.values()];
+}
+
+// Classification the model returns under a policy; severity, action and
+// flagged are derived from it by applyModerationPolicy
+const schemaCache = new Map<string, ReturnType<typeof buildClassificationSchema>>();
+
+function buildClassificationSchema(policy: ModerationPolicy) {
+  const categoryIds = policy.categories.map((c) => c.id) as [string, ...string[]];
+  return z.object({
+    language: z
+      .string()
+      .describe(
+        "The detected language name (e.g., 'English', 'Spanish', 'German', 'Chinese', 'Japanese', 'Italian')"
+      ),
+    languageCode: z
+      .string()
+      .length(2)
+      .describe(
+        "ISO 639-1 language code (e.g., 'en', 'es', 'de', 'zh', 'ja', 'it')"
+      ),
+    categories: z
+      .array(z.enum(categoryIds))
+      .max(3)
+      .describe("Policy categories that apply. Empty array if none apply."),
+    confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe("Confidence score for the moderation decision (0-1)"),
+    riskScore: z
+      .number()
+      .min(0)
+      .max(100)
+      .describe("Overall risk score from 0 (safe) to 100 (highest risk)"),
+    reasoning: z
+      .string()
+      .describe(
+        "Brief explanation of the moderation decision in the detected language"
+      ),
+  });
+}
+
+export function getClassificationSchema(policy: ModerationPolicy) {
+  const key = policyKey(policy);
+  let schema = schemaCache.get(key);
+  if (!schema) {
+    schema = buildClassificationSchema(policy);
+    schemaCache.set(key, schema);
+  }
+  return schema;
+}
+
+export type ModerationClassification = z.infer<
+  ReturnType<typeof buildClassificationSchema>
+>;
+
+export type PolicyDecision = {
+  severity: Severity;
+  action: CategoryAction;
+  flagged: boolean;
+  policy: { id: string; version: string };
+};
+
+const ACTION_RANK: Record<CategoryAction, number> = { allow: 0, flag: 1, block: 2 };
+
+// Apply a policy to a classification: severity from the riskScore thresholds,
+// action from the strictest matched category. Critical content is always
+// flagged, even when its categories are allowed.
+export function applyModerationPolicy(
+  policy: ModerationPolicy,
+  classification: Pick<ModerationClassification, "categories" | "riskScore">
+): PolicyDecision {
+  const { riskScore } = classification;
+  const severity: Severity =
+    riskScore >= policy.thresholds.critical
+      ? "critical"
+      : riskScore >= policy.thresholds.warning
+        ? "warning"
+        : "safe";
+
+  const action = classification.categories.reduce<CategoryAction>(
+    (strictest, id) => {
+      const categoryAction =
+        policy.categories.find((c) => c.id === id)?.action ?? "flag";
+      return ACTION_RANK[categoryAction] > ACTION_RANK[strictest]
+        ? categoryAction
+        : strictest;
+    },
+    "allow"
+  );
+
+  return {
+    severity,
+    action: severity === "critical" && action === "allow" ? "flag" : action,
+    flagged: action !== "allow" || severity === "critical",
+    policy: { id: policy.id, version: policy.version },
+  };
+}
+
+// Human-reviewed verdict shown to the model as an example
+export type PromptExample = {
+  message: string;
+  label: { flagged: boolean; categories: string[] };
+};
+
+// Moderation prompt generated from a policy, with categories the pre-filter
+// detected as hints and human-reviewed examples
+export function buildPolicyPrompt(
+  policy: ModerationPolicy,
+  message: string,
+  {
+    locale,
+    hints = [],
+    examples = [],
+  }: { locale?: string; hints?: PrefilterHit[]; examples?: PromptExample[] } = {}
+): string {
+  const localeContext = locale
+    ? `The user's preferred locale is: ${locale}.`
+    : "Auto-detect the language of the content.";
+  const categories = policy.categories
+    .map((c) => `- ${c.id}: ${c.description}`)
+    .join("\n");
+  const instructions = policy.instructions
+    ? `\nCommunity rules:\n${policy.instructions}\n`
+    : "";
+  const hinted = [...new Set(hints.map((hit) => hit.category))];
+  const hintContext = hinted.length
+    ? `\nAutomated checks detected: ${hinted.join(", ")}. Include these categories if the content confirms them.\n`
+    : "";
+  const exampleContext = examples.length
+    ? `\nHuman reviewers corrected these earlier decisions. Classify similar content the same way:\n${examples
+        .map(
+          (example) =>
+            `- "${example.message.substring(0, 200)}" → ${example.label.flagged ? "violation" : "not a violation"}, categories: ${example.label.categories.join(", ") || "none"}`
+        )
+        .join("\n")}\n`
+    : "";
+
+  return `You are a content moderation system. Analyze the following message for inappropriate content, safety concerns, and policy violations.
+
+${localeContext}
+Classify the content and provide moderation results in the detected language.
+
+Message to moderate: "${message}"
+
+Analyze for these categories (use the ids on the left):
+${categories}
+${instructions}${hintContext}${exampleContext}
+Score the overall risk from 0 to 100: ${policy.thresholds.warning} and above is a concern, ${policy.thresholds.critical} and above requires immediate action. Provide detailed reasoning.`;
+}
+
+function initPolicies() {
+  const configuredPath = process.env.MODERATION_POLICIES_PATH;
+  if (configuredPath) {
+    try {
+      const loaded = loadModerationPolicies(configuredPath);
+      console.log(
+        `✅ Loaded moderation policies ${loaded.map((p) => `${p.id}@${p.version}`).join(", ")} from ${configuredPath}`
+      );
+    } catch (error) {
+      console.warn(`Failed to load moderation policies from ${configuredPath}:`, error);
+    }
+  }
+}
+
+// Initialize on module load
+initPolicies();
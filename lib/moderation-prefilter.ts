@@ -0,0 +1,194 @@
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import type { ModerationPolicy } from "./moderation-policy";
+
+export const PREFILTER_CONFIG = {
+  ENABLED: process.env.MODERATION_PREFILTER_ENABLED !== "false",
+  RULES_PATH: process.env.MODERATION_PREFILTER_RULES_PATH, // Custom rules (JSON array)
+  BLOCKED_DOMAINS: (process.env.MODERATION_BLOCKED_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+  REPEATED_CHAR_RUN: parseInt(process.env.MODERATION_REPEATED_CHAR_RUN || "10"), // Same character this many times in a row
+};
+
+// A rule either decides on its own (the model is skipped) or passes its
+// category to the model as a hint
+export const PREFILTER_MODES = ["decide", "hint"] as const;
+
+// Custom rule: exactly one of pattern, keywords or domains
+export const PrefilterRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    category: z.string().min(1).describe("Policy category the rule detects"),
+    mode: z.enum(PREFILTER_MODES).default("hint"),
+    riskScore: z.number().min(0).max(100).default(50), // Used when the rule decides
+    pattern: z.string().optional().describe("Case-insensitive regular expression"),
+    keywords: z.array(z.string().min(1)).optional().describe("Whole words or phrases"),
+    domains: z.array(z.string().min(1)).optional().describe("Also matches subdomains"),
+  })
+  .refine(
+    (rule) => [rule.pattern, rule.keywords, rule.domains].filter(Boolean).length === 1,
+    "Set exactly one of pattern, keywords or domains"
+  );
+
+export type PrefilterRuleInput = z.input<typeof PrefilterRuleSchema>;
+
+type PrefilterRule = {
+  id: string;
+  category: string;
+  mode: (typeof PREFILTER_MODES)[number];
+  riskScore: number;
+  test(message: string): boolean;
+};
+
+export type PrefilterHit = Pick<PrefilterRule, "id" | "category" | "mode" | "riskScore">;
+
+export type PrefilterResult = {
+  hits: PrefilterHit[];
+  // Set when a deciding rule matched: the model is skipped
+  verdict?: { categories: string[]; riskScore: number };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Hostnames in URLs and bare domains (example.com, www.example.com/path)
+const HOSTNAME_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})\b/gi;
+
+function domainMatcher(domains: string[]): (message: string) => boolean {
+  const blocked = domains.map((domain) => domain.toLowerCase());
+  return (message) =>
+    [...message.matchAll(HOSTNAME_PATTERN)].some(([, host]) => {
+      const hostname = host.toLowerCase();
+      return blocked.some(
+        (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+      );
+    });
+}
+
+function compileRule(input: PrefilterRuleInput): PrefilterRule {
+  const rule = PrefilterRuleSchema.parse(input);
+  let test: (message: string) => boolean;
+  if (rule.pattern) {
+    const pattern = new RegExp(rule.pattern, "i");
+    test = (message) => pattern.test(message);
+  } else if (rule.keywords) {
+    const pattern = new RegExp(
+      `\\b(?:${rule.keywords.map(escapeRegExp).join("|")})\\b`,
+      "i"
+    );
+    test = (message) => pattern.test(message);
+  } else {
+    test = domainMatcher(rule.domains!);
+  }
+  return { ...rule, test };
+}
+
+// Built-in detectors: PII and repeated characters are passed to the model as
+// hints, since runs like "noooooooooo" or "----------" are usually benign.
+// Only the opt-in domain blocklist decides here.
+function builtinRules(): PrefilterRule[] {
+  const repeatedRun = new RegExp(`(.)\\1{${PREFILTER_CONFIG.REPEATED_CHAR_RUN - 1},}`, "u");
+  const rules: PrefilterRule[] = [
+    compileRule({
+      id: "pii_email",
+      category: "pii",
+      pattern: "[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}",
+    }),
+    compileRule({
+      id: "pii_phone",
+      category: "pii",
+      pattern: "(?:\\+\\d{1,3}[\\s.-]?)?\\(?\\b\\d{3}\\)?[\\s.-]?\\d{3}[\\s.-]?\\d{4}\\b",
+    }),
+    {
+      id: "repeated_chars",
+      category: "spam",
+      mode: "hint",
+      riskScore: 40,
+      test: (message) => repeatedRun.test(message.replace(/\s/g, "")),
+    },
+  ];
+  if (PREFILTER_CONFIG.BLOCKED_DOMAINS.length > 0) {
+    rules.push(
+      compileRule({
+        id: "blocked_domain",
+        category: "spam",
+        mode: "decide",
+        riskScore: 80,
+        domains: PREFILTER_CONFIG.BLOCKED_DOMAINS,
+      })
+    );
+  }
+  return rules;
+}
+
+let rules: PrefilterRule[] = builtinRules();
+
+// Add or replace a custom rule
+export function registerPrefilterRule(input: PrefilterRuleInput): void {
+  const rule = compileRule(input);
+  rules = [...rules.filter((r) => r.id !== rule.id), rule];
+}
+
+// Load custom rules from a JSON file holding an array of rules
+export function loadPrefilterRules(filePath: string): number {
+  const raw = JSON.parse(
+    fs.readFileSync(path.resolve(process.cwd(), filePath), "utf-8")
+  );
+  // Validate all before registering any, so a bad file changes nothing
+  const compiled = z.array(z.unknown()).parse(raw).map((input) =>
+    compileRule(input as PrefilterRuleInput)
+  );
+  compiled.forEach((rule) => {
+    rules = [...rules.filter((r) => r.id !== rule.id), rule];
+  });
+  return compiled.length;
+}
+
+// Restore the built-in rules (drops custom ones)
+export function resetPrefilterRules(): void {
+  rules = builtinRules();
+}
+
+// Run the rules that detect a category of the policy. Rules for categories
+// the policy doesn't moderate are skipped.
+export function runPrefilter(
+  message: string,
+  policy: ModerationPolicy
+): PrefilterResult {
+  if (!PREFILTER_CONFIG.ENABLED) return { hits: [] };
+
+  const categories = new Set(policy.categories.map((c) => c.id));
+  const hits: PrefilterHit[] = rules
+    .filter((rule) => categories.has(rule.category) && rule.test(message))
+    .map(({ id, category, mode, riskScore }) => ({ id, category, mode, riskScore }));
+
+  const deciding = hits.filter((hit) => hit.mode === "decide");
+  if (deciding.length === 0) return { hits };
+
+  return {
+    hits,
+    verdict: {
+      categories: [...new Set(hits.map((hit) => hit.category))],
+      riskScore: Math.max(...deciding.map((hit) => hit.riskScore)),
+    },
+  };
+}
+
+function initPrefilter() {
+  if (PREFILTER_CONFIG.RULES_PATH) {
+    try {
+      const count = loadPrefilterRules(PREFILTER_CONFIG.RULES_PATH);
+      console.log(`✅ Loaded ${count} pre-filter rules from ${PREFILTER_CONFIG.RULES_PATH}`);
+    } catch (error) {
+      console.warn(
+        `Failed to load pre-filter rules from ${PREFILTER_CONFIG.RULES_PATH}:`,
+        error
+      );
+    }
+  }
+}
+
+// Initialize on module load
+initPrefilter();
@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { getTelemetryStore } from "./telemetry-store";
+import { clearCache, getCacheKey, setCachedResult } from "./moderation-cache";
+import { moderationMetrics } from "./moderation-metrics";
+import { policyKey } from "./moderation-policy";
+import { recordQualityFeedback } from "./model-router";
+import type { ModerationResult } from "./moderation";
+
+export const REVIEW_CONFIG = {
+  MAX_ITEMS: parseInt(process.env.MODERATION_REVIEW_MAX_ITEMS || "1000"), // Resolved items are dropped first
+  CLAIM_TTL_MS: parseInt(process.env.MODERATION_REVIEW_CLAIM_MINUTES || "15") * 60 * 1000, // Unresolved claims expire
+  MAX_EXAMPLES: parseInt(process.env.MODERATION_REVIEW_MAX_EXAMPLES || "200"), // Labeled examples kept
+  PROMPT_EXAMPLES: parseInt(process.env.MODERATION_REVIEW_PROMPT_EXAMPLES || "3"), // Examples added to prompts (0 disables)
+};
+
+const QUEUE_KEY = "moderation-review-queue";
+const EXAMPLES_KEY = "moderation-labeled-examples";
+
+export const REVIEW_STATUSES = ["pending", "claimed", "approved", "overturned"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+// Verdict a reviewer gives when overturning; defaults to "not a violation"
+export const ReviewVerdictSchema = z.object({
+  flagged: z.boolean().default(false),
+  severity: z.enum(["safe", "warning", "critical"]).default("safe"),
+  categories: z.array(z.string().min(1)).max(3).default([]),
+});
+
+export type ReviewVerdict = z.infer<typeof ReviewVerdictSchema>;
+
+export const ReviewActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("claim"), reviewer: z.string().min(1) }),
+  z.object({
+    action: z.literal("approve"),
+    reviewer: z.string().min(1),
+    note: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("overturn"),
+    reviewer: z.string().min(1),
+    verdict: ReviewVerdictSchema.default({}),
+    note: z.string().optional(),
+  }),
+]);
+
+export type ReviewAction = z.input<typeof ReviewActionSchema>;
+
+export type ReviewItem = {
+  id: string;
+  createdAt: number;
+  status: ReviewStatus;
+  message: string;
+  locale?: string;
+  result: ModerationResult;
+  model: string | null; // null when the pre-filter decided
+  task?: string; // Routing task of the decision
+  decisionId?: string; // Routing decision, for quality feedback
+  claimedBy?: string;
+  claimedAt?: number;
+  resolution?: {
+    reviewer: string;
+    resolvedAt: number;
+    verdict?: ReviewVerdict; // Overturns only
+    note?: string;
+  };
+};
+
+// Human-labeled message, used as a few-shot example in moderation prompts
+export type LabeledExample = {
+  id: string;
+  message: string;
+  locale?: string;
+  policy: string;
+  label: ReviewVerdict;
+  original: Pick<ModerationResult, "flagged" | "severity" | "categories">;
+  note?: string;
+  labeledAt: number;
+};
+
+export class ReviewItemNotFoundError extends Error {
+  constructor(public itemId: string) {
+    super(`Unknown review item: ${itemId}`);
+    this.name = "ReviewItemNotFoundError";
+  }
+}
+
+export class ReviewConflictError extends Error {
+  constructor(
+    public item: ReviewItem,
+    message: string
+  ) {
+    super(message);
+    this.name = "ReviewConflictError";
+  }
+}
+
+// Stored queue: items oldest first, plus the id of the open item for each
+// message and policy (by cache key), so enqueueing doesn't rehash the queue
+type ReviewQueue = { items: ReviewItem[]; open: Record<string, string> };
+
+const EMPTY_QUEUE: ReviewQueue = { items: [], open: {} };
+
+const reviewKey = (item: Pick<ReviewItem, "message" | "locale" | "result">) =>
+  getCacheKey(item.message, item.locale, policyKey(item.result.policy));
+
+async function loadQueue(): Promise<ReviewQueue> {
+  return (await getTelemetryStore().get<ReviewQueue>(QUEUE_KEY)) || EMPTY_QUEUE;
+}
+
+const isResolved = (item: ReviewItem) =>
+  item.status === "approved" || item.status === "overturned";
+
+const claimExpired = (item: ReviewItem, now: number) =>
+  item.status === "claimed" && now - (item.claimedAt ?? 0) >= REVIEW_CONFIG.CLAIM_TTL_MS;
+
+// Expired claims read as pending again
+function withClaimExpiry(item: ReviewItem, now: number): ReviewItem {
+  if (!claimExpired(item, now)) return item;
+  return { ...item, status: "pending", claimedBy: undefined, claimedAt: undefined };
+}
+
+// Queue a flagged result for review. An open item for the same message and
+// policy is reused, so repeats don't flood the queue.
+export async function enqueueReview(entry: {
+  message: string;
+  locale?: string;
+  result: ModerationResult;
+  model: string | null;
+  task?: string;
+  decisionId?: string;
+}): Promise<ReviewItem> {
+  const key = reviewKey(entry);
+  let queued: ReviewItem | undefined;
+  await getTelemetryStore().update<ReviewQueue>(QUEUE_KEY, EMPTY_QUEUE, (queue) => {
+    const openId = queue.open[key];
+    queued = openId ? queue.items.find((item) => item.id === openId) : undefined;
+    if (queued) return queue;
+
+    queued = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      status: "pending",
+      ...entry,
+    };
+    const items = [...queue.items, queued];
+    const open = { ...queue.open, [key]: queued.id };
+    // Over the cap: drop the oldest resolved items, then the oldest open ones
+    while (items.length > REVIEW_CONFIG.MAX_ITEMS) {
+      const resolved = items.findIndex(isResolved);
+      const [dropped] = items.splice(resolved === -1 ? 0 : resolved, 1);
+      if (!isResolved(dropped)) delete open[reviewKey(dropped)];
+    }
+    moderationMetrics.reviews.inc({ outcome: "queued" });
+    return { items, open };
+  });
+  return queued!;
+}
+
+// Items oldest first, optionally filtered by status
+export async function listReviewItems(
+  { status, limit = 50 }: { status?: ReviewStatus; limit?: number } = {}
+): Promise<{ items: ReviewItem[]; counts: Record<ReviewStatus, number> }> {
+  const now = Date.now();
+  const items = (await loadQueue()).items.map((item) => withClaimExpiry(item, now));
+  const counts = Object.fromEntries(
+    REVIEW_STATUSES.map((s) => [s, items.filter((item) => item.status === s).length])
+  ) as Record<ReviewStatus, number>;
+  return {
+    items: items.filter((item) => !status || item.status === status).slice(0, limit),
+    counts,
+  };
+}
+
+export async function getReviewItem(id: string): Promise<ReviewItem> {
+  const item = (await loadQueue()).items.find((entry) => entry.id === id);
+  if (!item) throw new ReviewItemNotFoundError(id);
+  return withClaimExpiry(item, Date.now());
+}
+
+// Apply a reviewer action. Claims are exclusive until they expire; an item
+// can be approved or overturned once, by its claimant or while unclaimed.
+async function updateItem(id: string, action: z.infer<typeof ReviewActionSchema>) {
+  const now = Date.now();
+  let updated: ReviewItem | undefined;
+  await getTelemetryStore().update<ReviewQueue>(QUEUE_KEY, EMPTY_QUEUE, (queue) => {
+    const items = queue.items.map((stored) => {
+      if (stored.id !== id) return stored;
+      const item = withClaimExpiry(stored, now);
+      if (isResolved(item)) {
+        throw new ReviewConflictError(item, `Review item ${id} is already ${item.status}`);
+      }
+      if (item.status === "claimed" && item.claimedBy !== action.reviewer) {
+        throw new ReviewConflictError(item, `Review item ${id} is claimed by ${item.claimedBy}`);
+      }
+
+      if (action.action === "claim") {
+        updated = { ...item, status: "claimed", claimedBy: action.reviewer, claimedAt: now };
+      } else {
+        updated = {
+          ...item,
+          status: action.action === "approve" ? "approved" : "overturned",
+          resolution: {
+            reviewer: action.reviewer,
+            resolvedAt: now,
+            verdict: action.action === "overturn" ? action.verdict : undefined,
+            note: action.note,
+          },
+        };
+      }
+      return updated;
+    });
+    if (!updated || !isResolved(updated)) return { ...queue, items };
+    // Resolved items no longer absorb repeats
+    const open = { ...queue.open };
+    delete open[reviewKey(updated)];
+    return { items, open };
+  });
+  if (!updated) throw new ReviewItemNotFoundError(id);
+  return updated;
+}
+
+// Result cached for an overturned item: the reviewer's verdict replaces the
+// model's, so repeats of the message get it without another model call
+function reviewedResult(item: ReviewItem, verdict: ReviewVerdict, reviewer: string): ModerationResult {
+  return {
+    ...item.result,
+    categories: verdict.categories,
+    severity: verdict.severity,
+    flagged: verdict.flagged,
+    action: !verdict.flagged ? "allow" : item.result.action === "allow" ? "flag" : item.result.action,
+    confidence: 1,
+    reasoning: `Overturned in review by ${reviewer}`,
+    decidedBy: "review",
+  };
+}
+
+// Claim, approve or overturn an item. Resolutions feed back into routing
+// quality; overturns also replace the cached verdict and become labeled examples.
+export async function applyReviewAction(
+  id: string,
+  input: ReviewAction
+): Promise<ReviewItem> {
+  const action = ReviewActionSchema.parse(input);
+  const item = await updateItem(id, action);
+  if (action.action === "claim") return item;
+
+  moderationMetrics.reviews.inc({ outcome: item.status });
+
+  if (action.action === "overturn") {
+    const policy = policyKey(item.result.policy);
+    // Critical verdicts aren't cached, as in moderateMessage
+    if (action.verdict.severity === "critical") {
+      await clearCache(reviewKey(item));
+    } else {
+      await setCachedResult(reviewKey(item), reviewedResult(item, action.verdict, action.reviewer));
+    }
+    await getTelemetryStore().update<LabeledExample[]>(EXAMPLES_KEY, [], (examples) =>
+      [
+        ...examples,
+        {
+          id: item.id,
+          message: item.message,
+          locale: item.locale,
+          policy,
+          label: action.verdict,
+          original: {
+            flagged: item.result.flagged,
+            severity: item.result.severity,
+            categories: item.result.categories,
+          },
+          note: action.note,
+          labeledAt: Date.now(),
+        },
+      ].slice(-REVIEW_CONFIG.MAX_EXAMPLES)
+    );
+  }
+
+  if (item.decisionId) {
+    try {
+      // The item's model and task cover decisions that aged out of routing history
+      await recordQualityFeedback(
+        {
+          decisionId: item.decisionId,
+          signal: action.action === "overturn" ? "human_override" : "thumbs_up",
+          source: "review",
+          note: action.note,
+        },
+        item.model && item.task ? { model: item.model, task: item.task } : undefined
+      );
+    } catch (error) {
+      console.warn(`Failed to record review feedback for ${item.decisionId}:`, error);
+    }
+  }
+  return item;
+}
+
+// Most recent labeled examples for a policy ("id@version")
+export async function getLabeledExamples(
+  policy: string,
+  limit = REVIEW_CONFIG.PROMPT_EXAMPLES
+): Promise<LabeledExample[]> {
+  if (limit <= 0) return [];
+  const examples = (await getTelemetryStore().get<LabeledExample[]>(EXAMPLES_KEY)) || [];
+  return examples.filter((example) => example.policy === policy).slice(-limit);
+}
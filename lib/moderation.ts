@@ -0,0 +1,332 @@
+import { generateObject } from "ai";
+import { after } from "next/server";
+import { z } from "zod";
+import { runWithRouter, type RouterConfig } from "./model-router";
+import {
+  getCacheKey,
+  getCachedResult,
+  setCachedResult,
+} from "./moderation-cache";
+import { moderationMetrics, recordModeration } from "./moderation-metrics";
+import {
+  applyModerationPolicy,
+  buildPolicyPrompt,
+  getClassificationSchema,
+  getModerationPolicy,
+  policyKey,
+  type ModerationClassification,
+  type ModerationPolicy,
+  type PolicyDecision,
+} from "./moderation-policy";
+import { runPrefilter, type PrefilterResult } from "./moderation-prefilter";
+import { createAlert, dispatchAlert } from "./moderation-alerts";
+import { enqueueReview, getLabeledExamples } from "./moderation-review";
+
+// Layer that produced a verdict: a pre-filter rule, the model, a reviewer who
+// overturned it (served from the cache), or the safe default when moderation failed
+export type ModerationLayer = "prefilter" | "model" | "review" | "fallback";
+
+// Model classification plus the policy's severity, action and flagged
+export type ModerationResult = ModerationClassification &
+  PolicyDecision & {
+    decidedBy: ModerationLayer;
+    prefilterHits: string[]; // Ids of the pre-filter rules that matched
+  };
+
+// Route flagged content to the alert sinks. Delivery (with webhook retries)
+// runs after the response is sent so it doesn't add to moderation latency.
+// Outside a request scope (scripts, the replay CLI, tests, late stream
+// callbacks) `after` throws, so delivery runs in the background instead.
+function sendAlert(message: string, result: ModerationResult) {
+  const alert = createAlert(message, {
+    severity: result.severity,
+    action: result.action,
+    policy: policyKey(result.policy),
+    decidedBy: result.decidedBy,
+    riskScore: result.riskScore,
+    categories: result.categories,
+    language: result.language,
+    reasoning: result.reasoning,
+  });
+  const deliver = () => dispatchAlert(alert);
+  try {
+    after(deliver);
+  } catch {
+    void deliver().catch((error) =>
+      console.warn("Failed to dispatch moderation alert:", error)
+    );
+  }
+}
+
+// Flagged content goes to the alert sinks and the human review queue
+export async function escalate(
+  message: string,
+  result: ModerationResult,
+  review: { locale?: string; model: string | null; task?: string; decisionId?: string }
+) {
+  if (!result.flagged && result.severity !== "critical") return;
+  try {
+    sendAlert(message, result);
+    await enqueueReview({ message, result, ...review });
+  } catch (error) {
+    console.warn("Failed to escalate moderation result:", error);
+  }
+}
+
+export type ModerationOptions = {
+  locale?: string;
+  policy?: ModerationPolicy; // Defaults to getModerationPolicy()
+  skipCache?: boolean;
+  routing?: Pick<RouterConfig, "tenant" | "affinityKey" | "forceModel">;
+};
+
+export type ModerationOutcome = ModerationResult & {
+  cached?: boolean;
+  latency?: number;
+  decisionId?: string;
+};
+
+// Run the pre-filter rules, counting each rule's hits
+export function prefilterMessage(
+  message: string,
+  policy: ModerationPolicy
+): PrefilterResult {
+  const prefilter = runPrefilter(message, policy);
+  prefilter.hits.forEach((hit) =>
+    moderationMetrics.prefilterHits.inc({ rule: hit.id, category: hit.category })
+  );
+  return prefilter;
+}
+
+// Process a single message with moderation (with caching). Routing failures
+// propagate; callers decide whether to fall back to moderationErrorResult
+export async function moderateMessage(
+  message: string,
+  {
+    locale,
+    policy = getModerationPolicy(),
+    skipCache = false,
+    routing = {},
+  }: ModerationOptions = {}
+): Promise<ModerationOutcome> {
+  const startTime = Date.now();
+  const cacheKey = getCacheKey(message, locale, policyKey(policy));
+
+  // Deterministic rules first: they can decide without the model, and rule
+  // changes apply to messages that are already cached
+  const prefilter = prefilterMessage(message, policy);
+  if (prefilter.verdict) {
+    const result = prefilterResult(policy, prefilter);
+    moderationMetrics.decisions.inc({ layer: "prefilter" });
+    await escalate(message, result, { locale, model: null });
+    return { ...result, cached: false, latency: Date.now() - startTime };
+  }
+
+  // Check cache first (unless streaming or skipCache is true)
+  if (!skipCache) {
+    const cached = await getCachedResult<ModerationResult>(cacheKey);
+    if (cached) {
+      moderationMetrics.cacheHits.inc();
+      moderationMetrics.decisions.inc({ layer: "cache" });
+      const latency = Date.now() - startTime;
+      return { ...cached, cached: true, latency };
+    }
+    moderationMetrics.cacheMisses.inc();
+  }
+
+  // Categories the rules detected are passed to the model as hints, and
+  // verdicts overturned in review as examples
+  const prompt = buildPolicyPrompt(policy, message, {
+    locale,
+    hints: prefilter.hits,
+    examples: await getLabeledExamples(policyKey(policy)),
+  });
+
+  // Route to the best classification model, falling back on failure
+  const {
+    result: { object: classification },
+    model,
+    decision,
+  } = await runWithRouter(
+    {
+      task: "classification",
+      priority: "speed",
+      complexity: "low",
+      maxLatencyMs: 2000, // Low latency requirement for moderation
+      requiredCapabilities: ["structured_output"],
+      ...routing,
+    },
+    (model, { signal }) =>
+      generateObject({
+        model,
+        schema: getClassificationSchema(policy),
+        prompt,
+        abortSignal: signal,
+      }),
+    { hedge: true } // Hedge slow calls to stay within the latency budget
+  );
+
+  const result = modelResult(policy, classification, prefilter);
+  const latency = Date.now() - startTime;
+
+  // Update moderation metrics
+  recordModeration(result, latency);
+  moderationMetrics.decisions.inc({ layer: "model" });
+
+  // Route flagged content to alerts and human review
+  await escalate(message, result, {
+    locale,
+    model,
+    task: decision.config.task,
+    decisionId: decision.id,
+  });
+
+  // Cache the result (unless it's critical - we might want fresh checks)
+  if (result.severity !== "critical") {
+    await setCachedResult(cacheKey, result);
+  }
+
+  return { ...result, cached: false, latency, decisionId: decision.id };
+}
+
+// Safe default returned when moderation itself fails
+export function moderationErrorResult(
+  error: unknown,
+  policy: ModerationPolicy = getModerationPolicy()
+): ModerationOutcome {
+  return {
+    language: "Unknown",
+    languageCode: "en",
+    severity: "safe",
+    action: "allow",
+    categories: [],
+    confidence: 0,
+    riskScore: 0,
+    flagged: false,
+    policy: { id: policy.id, version: policy.version },
+    reasoning: `Error during moderation: ${error instanceof Error ? error.message : String(error)}`,
+    decidedBy: "fallback",
+    prefilterHits: [],
+  };
+}
+
+// Model classification with the policy applied
+export function modelResult(
+  policy: ModerationPolicy,
+  classification: ModerationClassification,
+  prefilter: PrefilterResult
+): ModerationResult {
+  return {
+    ...classification,
+    ...applyModerationPolicy(policy, classification),
+    decidedBy: "model",
+    prefilterHits: prefilter.hits.map((hit) => hit.id),
+  };
+}
+
+// Verdict of the pre-filter's deciding rules, with the policy applied
+export function prefilterResult(
+  policy: ModerationPolicy,
+  prefilter: PrefilterResult
+): ModerationResult {
+  const { categories, riskScore } = prefilter.verdict!;
+  const rules = prefilter.hits.map((hit) => hit.id);
+  return {
+    language: "Unknown",
+    languageCode: "en",
+    categories: categories.slice(0, 3),
+    confidence: 1,
+    riskScore,
+    reasoning: `Matched pre-filter rules: ${rules.join(", ")}`,
+    ...applyModerationPolicy(policy, { categories, riskScore }),
+    decidedBy: "prefilter",
+    prefilterHits: rules,
+  };
+}
+
+export const BATCH_CONFIG = {
+  MAX_ITEMS: parseInt(process.env.MODERATION_BATCH_MAX_ITEMS || "100"), // Messages per batch request
+  CONCURRENCY: parseInt(process.env.MODERATION_BATCH_CONCURRENCY || "5"), // Model calls in flight per batch
+};
+
+export const BatchItemSchema = z.object({
+  id: z.string().optional(),
+  message: z.string().min(1),
+  locale: z.string().optional(),
+});
+
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+
+export type BatchItemResult =
+  | {
+      index: number;
+      id?: string;
+      status: "ok";
+      result: ModerationResult;
+      cached: boolean;
+      latency?: number;
+      decisionId?: string;
+    }
+  | { index: number; id?: string; status: "error"; error: string };
+
+// Moderate a batch, returning results in input order. Items from index
+// `granted` on are over the rate limit and rejected without a model call;
+// duplicate messages share one moderation, and cached ones skip the model
+export async function moderateBatch(
+  items: BatchItem[],
+  {
+    granted = items.length,
+    concurrency = BATCH_CONFIG.CONCURRENCY,
+    policy = getModerationPolicy(),
+    routing = {},
+    moderate = moderateMessage,
+  }: {
+    granted?: number;
+    concurrency?: number;
+    policy?: ModerationPolicy;
+    routing?: ModerationOptions["routing"];
+    moderate?: typeof moderateMessage; // Replaced in tests
+  } = {}
+): Promise<BatchItemResult[]> {
+  // p-limit is ESM-only; a dynamic import keeps this module loadable from CommonJS
+  const { default: pLimit } = await import("p-limit");
+  const limit = pLimit(concurrency);
+  const inFlight = new Map<string, Promise<ModerationOutcome>>();
+
+  const tasks = items.map(async (item, index): Promise<BatchItemResult> => {
+    if (index >= granted) {
+      return { index, id: item.id, status: "error", error: "Rate limit exceeded" };
+    }
+
+    const key = getCacheKey(item.message, item.locale, policyKey(policy));
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = limit(() =>
+        moderate(item.message, { locale: item.locale, policy, routing })
+      );
+      inFlight.set(key, pending);
+    }
+
+    try {
+      const { cached, latency, decisionId, ...result } = await pending;
+      return {
+        index,
+        id: item.id,
+        status: "ok",
+        result,
+        cached: cached ?? false,
+        latency,
+        decisionId,
+      };
+    } catch (error) {
+      return {
+        index,
+        id: item.id,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
+  return Promise.all(tasks);
+}
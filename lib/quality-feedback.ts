@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+// Quality signals attached to a routing decision after the fact
+export const QUALITY_SIGNALS = [
+  "thumbs_up",
+  "thumbs_down",
+  "schema_failure", // Output failed schema validation
+  "human_override", // A reviewer overturned the model's verdict
+] as const;
+
+export type QualitySignal = (typeof QUALITY_SIGNALS)[number];
+
+// Quality value of each signal (1 = good output, 0 = bad output)
+const SIGNAL_VALUES: Record<QualitySignal, number> = {
+  thumbs_up: 1,
+  thumbs_down: 0,
+  schema_failure: 0,
+  human_override: 0,
+};
+
+export const QualityFeedbackSchema = z.object({
+  decisionId: z.string().min(1).describe("id of the routing decision"),
+  signal: z.enum(QUALITY_SIGNALS),
+  source: z
+    .string()
+    .min(1)
+    .max(100)
+    .default("api")
+    .describe("Who gave the signal; each source signals a decision once"),
+  note: z.string().max(1000).optional(),
+});
+
+export type QualityFeedback = z.infer<typeof QualityFeedbackSchema>;
+export type QualityFeedbackInput = z.input<typeof QualityFeedbackSchema>;
+
+// Accumulated feedback for one model on one task
+export interface QualityStats {
+  samples: number;
+  totalValue: number; // Sum of signal values
+  lastFeedbackAt: number;
+}
+
+// Thrown when feedback references a decision that isn't in routing history
+export class UnknownDecisionError extends Error {
+  constructor(public readonly decisionId: string) {
+    super(`Routing decision ${decisionId} not found in history`);
+    this.name = "UnknownDecisionError";
+  }
+}
+
+// Thrown when a source already gave a signal for a decision
+export class DuplicateFeedbackError extends Error {
+  constructor(
+    public readonly decisionId: string,
+    public readonly source: string
+  ) {
+    super(`Routing decision ${decisionId} already has feedback from ${source}`);
+    this.name = "DuplicateFeedbackError";
+  }
+}
+
+// Add a signal to a model's task stats
+export function applyQualitySignal(
+  stats: QualityStats | undefined,
+  signal: QualitySignal,
+  now: number = Date.now()
+): QualityStats {
+  return {
+    samples: (stats?.samples ?? 0) + 1,
+    totalValue: (stats?.totalValue ?? 0) + SIGNAL_VALUES[signal],
+    lastFeedbackAt: now,
+  };
+}
+
+// Observed quality (0-1), or null until there are enough samples to trust it
+export function getObservedQuality(
+  stats: QualityStats | undefined,
+  minSamples: number
+): number | null {
+  if (!stats || stats.samples === 0 || stats.samples < minSamples) return null;
+  return stats.totalValue / stats.samples;
+}
@@ -4,6 +4,12 @@ import {
   getCachedResult,
   setCachedResult,
 } from "./moderation-cache";
+import { counter } from "./metrics-registry";
+
+const rateLimitRejections = counter(
+  "rate_limit_rejections",
+  "Requests (or batch items) rejected by the rate limiter, by route."
+);
 
 // Rate limit configuration
 export interface RateLimitConfig {
@@ -25,7 +31,7 @@ interface RateLimitEntry {
 }
 
 // Get client identifier (IP address or custom)
-function getClientId(request: NextRequest, customId?: string): string {
+export function getClientId(request: NextRequest, customId?: string): string {
   if (customId) return customId;
 
   // Try to get IP from various headers (for proxies/load balancers)
@@ -41,6 +47,21 @@ export async function checkRateLimit(
   request: NextRequest,
   config: RateLimitConfig = DEFAULT_RATE_LIMIT
 ): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+  const { granted, remaining, resetAt } = await consumeRateLimit(
+    request,
+    1,
+    config
+  );
+  return { allowed: granted > 0, remaining, resetAt };
+}
+
+// Consume up to `units` from the client's window (one per batch item, say).
+// Grants as many as the window has left; the rest are rejected
+export async function consumeRateLimit(
+  request: NextRequest,
+  units: number,
+  config: RateLimitConfig = DEFAULT_RATE_LIMIT
+): Promise<{ granted: number; remaining: number; resetAt: number }> {
   const clientId = getClientId(request);
   const key = `${clientId}:${config.windowSeconds}`;
   const now = Date.now();
@@ -48,37 +69,32 @@ export async function checkRateLimit(
 
   try {
     // Get current rate limit entry
-    const entry = await getCachedResult<RateLimitEntry>(key);
-
-    if (!entry || entry.resetAt < now) {
-      // New window or expired, reset
-      const newEntry: RateLimitEntry = {
-        count: 1,
-        resetAt: now + windowMs,
-      };
-      await setCachedResult(key, newEntry, config.windowSeconds);
-      return {
-        allowed: true,
-        remaining: config.maxRequests - 1,
-        resetAt: newEntry.resetAt,
-      };
-    }
+    const stored = await getCachedResult<RateLimitEntry>(key);
+
+    // New window or expired, reset
+    const entry: RateLimitEntry =
+      !stored || stored.resetAt < now
+        ? { count: 0, resetAt: now + windowMs }
+        : stored;
 
     // Check if limit exceeded
-    if (entry.count >= config.maxRequests) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: entry.resetAt,
-      };
+    const granted = Math.max(0, Math.min(units, config.maxRequests - entry.count));
+    if (granted < units) {
+      rateLimitRejections.inc(
+        { route: request.nextUrl.pathname },
+        units - granted
+      );
+    }
+    if (granted === 0) {
+      return { granted, remaining: 0, resetAt: entry.resetAt };
     }
 
     // Increment count
-    entry.count += 1;
+    entry.count += granted;
     await setCachedResult(key, entry, Math.ceil((entry.resetAt - now) / 1000));
 
     return {
-      allowed: true,
+      granted,
       remaining: config.maxRequests - entry.count,
       resetAt: entry.resetAt,
     };
@@ -86,7 +102,7 @@ export async function checkRateLimit(
     // On error, allow request (fail open)
     console.warn("Rate limit check error:", error);
     return {
-      allowed: true,
+      granted: units,
       remaining: config.maxRequests,
       resetAt: now + windowMs,
     };
@@ -0,0 +1,95 @@
+import { calculateCost, type ModelDefinition } from "./model-registry";
+import { latencyPercentile } from "./telemetry-window";
+import type { ModelTelemetry } from "./model-router";
+
+// Opt-in hedging for runWithRouter: if the primary model is slower than a
+// percentile of its recent latency, the same request goes to the next-best
+// model and whichever answers first wins
+export interface HedgeOptions {
+  percentile?: number; // Hedge after this percentile (0-100) of the primary's recent latency
+  minDelayMs?: number; // Never hedge earlier than this
+  maxHedgeRate?: number; // Cost cap: max share of hedge-eligible requests that are hedged
+  maxHedgeCostUsd?: number; // Cost cap: skip hedges whose projected cost is higher
+}
+
+export const HEDGE_CONFIG = {
+  PERCENTILE: parseFloat(process.env.ROUTER_HEDGE_PERCENTILE || "95"),
+  MIN_DELAY_MS: 100,
+  MIN_SAMPLES: 5, // Below this, the model's registry maxLatencyMs is used instead
+  MAX_HEDGE_RATE: parseFloat(process.env.ROUTER_HEDGE_MAX_RATE || "0.1"),
+  RATE_WINDOW: 100, // Hedge-eligible requests the rate cap looks back over
+};
+
+// Recent hedge-eligible requests in this process (true = hedged)
+const hedgeHistory: boolean[] = [];
+
+// When to hedge a call to the primary model
+export function getHedgeDelay(
+  definition: ModelDefinition,
+  telemetry: ModelTelemetry | undefined,
+  options: HedgeOptions,
+  maxLatencyMs?: number
+): number {
+  const samples = telemetry?.recentCalls ?? [];
+  const observed =
+    samples.length >= HEDGE_CONFIG.MIN_SAMPLES
+      ? latencyPercentile(samples, options.percentile ?? HEDGE_CONFIG.PERCENTILE)
+      : null;
+  // Don't wait past the caller's latency requirement
+  const delay = Math.min(
+    observed ?? definition.maxLatencyMs,
+    maxLatencyMs ?? Infinity
+  );
+  return Math.max(delay, options.minDelayMs ?? HEDGE_CONFIG.MIN_DELAY_MS);
+}
+
+// Projected cost of one call, from the model's average observed tokens per call
+function getProjectedCost(
+  definition: ModelDefinition,
+  telemetry: ModelTelemetry | undefined,
+  estimatedInputTokens?: number
+): number {
+  const calls = telemetry?.callCount || 0;
+  return calculateCost(definition, {
+    inputTokens:
+      estimatedInputTokens ?? (calls > 0 ? telemetry!.inputTokens / calls : 0),
+    outputTokens: calls > 0 ? telemetry!.outputTokens / calls : 0,
+  });
+}
+
+// Count a request that may be hedged, for the hedge rate cap
+export function trackHedgeEligible(): void {
+  hedgeHistory.push(false);
+  if (hedgeHistory.length > HEDGE_CONFIG.RATE_WINDOW) hedgeHistory.shift();
+}
+
+// Reason a hedge may not be launched under the cost caps, or null if it may
+// (the hedge is then counted towards the rate cap)
+export function checkHedgeBudget(
+  definition: ModelDefinition,
+  telemetry: ModelTelemetry | undefined,
+  options: HedgeOptions,
+  estimatedInputTokens?: number
+): string | null {
+  const maxRate = options.maxHedgeRate ?? HEDGE_CONFIG.MAX_HEDGE_RATE;
+  const hedged = hedgeHistory.filter(Boolean).length;
+  if (hedged + 1 > maxRate * hedgeHistory.length) {
+    return "hedge rate cap reached";
+  }
+  if (
+    options.maxHedgeCostUsd !== undefined &&
+    getProjectedCost(definition, telemetry, estimatedInputTokens) >
+      options.maxHedgeCostUsd
+  ) {
+    return "hedge over cost cap";
+  }
+
+  const unhedged = hedgeHistory.lastIndexOf(false);
+  if (unhedged >= 0) hedgeHistory[unhedged] = true;
+  return null;
+}
+
+// Forget hedge rate history (tests)
+export function resetHedgeBudget(): void {
+  hedgeHistory.length = 0;
+}
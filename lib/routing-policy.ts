@@ -0,0 +1,209 @@
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import { CapabilityTier } from "./model-registry";
+
+// Routing priorities and built-in task types
+export const ROUTING_PRIORITIES = ["cost", "quality", "speed", "balanced"] as const;
+export const BUILTIN_TASKS = [
+  "classification",
+  "summarization",
+  "reasoning",
+  "extraction",
+  "chat",
+  "other",
+] as const;
+
+// Weights for the base score and each sub-score of one priority
+const PriorityWeightSchema = z.object({
+  base: z.number().nonnegative(),
+  cost: z.number().nonnegative(),
+  speed: z.number().nonnegative(),
+  quality: z.number().nonnegative(),
+});
+
+const DEFAULT_WEIGHTS = {
+  cost: { base: 0.3, cost: 0.7, speed: 0, quality: 0 },
+  speed: { base: 0.3, cost: 0, speed: 0.7, quality: 0 },
+  quality: { base: 0.3, cost: 0, speed: 0, quality: 0.7 },
+  balanced: { base: 0.2, cost: 0.3, speed: 0.3, quality: 0.2 },
+};
+
+const DEFAULT_TASK_TIERS: Record<string, CapabilityTier> = {
+  classification: CapabilityTier.BASIC,
+  summarization: CapabilityTier.STANDARD,
+  extraction: CapabilityTier.STANDARD,
+  reasoning: CapabilityTier.REASONING,
+  chat: CapabilityTier.STANDARD,
+  other: CapabilityTier.STANDARD,
+};
+
+// Routing policy: scoring weights, penalties and task-to-tier mapping.
+// Loaded from ROUTER_POLICY_PATH; every field falls back to the built-in default.
+export const RoutingPolicySchema = z.object({
+  version: z
+    .string()
+    .min(1)
+    .default("builtin")
+    .describe("Recorded in each routing decision"),
+  weights: z
+    .object({
+      cost: PriorityWeightSchema.default(DEFAULT_WEIGHTS.cost),
+      speed: PriorityWeightSchema.default(DEFAULT_WEIGHTS.speed),
+      quality: PriorityWeightSchema.default(DEFAULT_WEIGHTS.quality),
+      balanced: PriorityWeightSchema.default(DEFAULT_WEIGHTS.balanced),
+    })
+    .default({}),
+  penalties: z
+    .object({
+      insufficientTier: z.number().nonnegative().default(30), // Model below the task's tier
+      overkillTier: z.number().nonnegative().default(10), // More than one tier above
+      exceedsMaxLatency: z.number().nonnegative().default(50), // p95 over maxLatencyMs
+      lowSuccessRate: z.number().nonnegative().default(50), // Times the failure rate
+      successRateThreshold: z.number().min(0).max(1).default(0.95),
+    })
+    .default({}),
+  recencyBonus: z.number().nonnegative().default(5),
+  quality: z
+    .object({
+      feedbackWeight: z.number().min(0).max(1).default(0.5), // 0: tier only, 1: feedback only
+      minSamples: z.number().int().positive().default(5), // Feedback needed per model and task
+    })
+    .default({})
+    .describe("Blends quality feedback into the quality sub-score"),
+  taskTiers: z
+    .record(z.string(), z.nativeEnum(CapabilityTier))
+    .default({})
+    .describe("Overrides the tier required by built-in tasks"),
+  customTasks: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        tier: z.nativeEnum(CapabilityTier),
+        description: z.string().optional(),
+      })
+    )
+    .default([])
+    .describe("Additional task types accepted by RouterConfig"),
+});
+
+export type RoutingPolicy = z.infer<typeof RoutingPolicySchema>;
+export type RoutingPolicyInput = z.input<typeof RoutingPolicySchema>;
+export type PriorityWeights = RoutingPolicy["weights"];
+
+// Partial weight overrides (e.g. for replay): unset fields keep the active weights
+const PriorityWeightOverrideSchema = PriorityWeightSchema.partial().strict().optional();
+
+export const PriorityWeightOverridesSchema = z
+  .object({
+    cost: PriorityWeightOverrideSchema,
+    speed: PriorityWeightOverrideSchema,
+    quality: PriorityWeightOverrideSchema,
+    balanced: PriorityWeightOverrideSchema,
+  })
+  .strict();
+
+export type PriorityWeightOverrides = z.infer<typeof PriorityWeightOverridesSchema>;
+
+// Apply overrides field by field over a full set of weights
+export function mergePriorityWeights(
+  weights: PriorityWeights,
+  overrides: PriorityWeightOverrides
+): PriorityWeights {
+  const merged = { ...weights };
+  for (const priority of ROUTING_PRIORITIES) {
+    const override = Object.entries(overrides[priority] ?? {}).filter(
+      ([, value]) => value !== undefined
+    );
+    merged[priority] = { ...weights[priority], ...Object.fromEntries(override) };
+  }
+  return merged;
+}
+
+const POLICY_CHECK_INTERVAL_MS = 5000; // How often the policy file is checked for changes
+
+let policy: RoutingPolicy = RoutingPolicySchema.parse({});
+let policyPath: string | undefined;
+let policyMtimeMs = 0;
+let lastCheckedAt = 0;
+
+// Replace the active policy
+export function setRoutingPolicy(input: RoutingPolicyInput): RoutingPolicy {
+  policy = RoutingPolicySchema.parse(input);
+  return policy;
+}
+
+// Load a policy file and make it active. The file is watched for changes
+// even if this load fails, so fixing it takes effect without a restart.
+export function loadRoutingPolicy(filePath: string): RoutingPolicy {
+  const resolved = path.resolve(process.cwd(), filePath);
+  policyPath = filePath;
+  policyMtimeMs = fs.statSync(resolved).mtimeMs;
+  lastCheckedAt = Date.now();
+  return setRoutingPolicy(JSON.parse(fs.readFileSync(resolved, "utf-8")));
+}
+
+// Re-read the policy file if it changed; an invalid file keeps the current policy
+export function reloadRoutingPolicy(): RoutingPolicy {
+  if (!policyPath) return policy;
+  lastCheckedAt = Date.now();
+  try {
+    const mtimeMs = fs.statSync(path.resolve(process.cwd(), policyPath)).mtimeMs;
+    if (mtimeMs !== policyMtimeMs) {
+      const loaded = loadRoutingPolicy(policyPath);
+      console.log(`✅ Reloaded routing policy ${loaded.version} from ${policyPath}`);
+    }
+  } catch (error) {
+    console.warn(`Failed to reload routing policy from ${policyPath}:`, error);
+  }
+  return policy;
+}
+
+// Active policy (picks up file changes without a restart)
+export function getRoutingPolicy(): RoutingPolicy {
+  if (policyPath && Date.now() - lastCheckedAt >= POLICY_CHECK_INTERVAL_MS) {
+    return reloadRoutingPolicy();
+  }
+  return policy;
+}
+
+// Reset to the built-in policy and stop watching any policy file
+export function resetRoutingPolicy(): RoutingPolicy {
+  policyPath = undefined;
+  return setRoutingPolicy({});
+}
+
+// Tier a task needs under a policy, or undefined for unknown tasks
+export function getTaskTier(
+  task: string,
+  activePolicy: RoutingPolicy = getRoutingPolicy()
+): CapabilityTier | undefined {
+  return (
+    activePolicy.taskTiers[task] ??
+    activePolicy.customTasks.find((custom) => custom.name === task)?.tier ??
+    DEFAULT_TASK_TIERS[task]
+  );
+}
+
+// Built-in and custom task types
+export function listTaskTypes(): string[] {
+  return [
+    ...BUILTIN_TASKS,
+    ...getRoutingPolicy().customTasks.map((custom) => custom.name),
+  ];
+}
+
+function initPolicy() {
+  const configuredPath = process.env.ROUTER_POLICY_PATH;
+  if (configuredPath) {
+    try {
+      const loaded = loadRoutingPolicy(configuredPath);
+      console.log(`✅ Loaded routing policy ${loaded.version} from ${configuredPath}`);
+    } catch (error) {
+      console.warn(`Failed to load routing policy from ${configuredPath}:`, error);
+    }
+  }
+}
+
+// Initialize on module load
+initPolicy();
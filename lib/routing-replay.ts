@@ -0,0 +1,225 @@
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import { calculateCost, getModel, type TokenUsage } from "./model-registry";
+import {
+  RouterConfigSchema,
+  getTierMismatch,
+  simulateRouting,
+  type ModelTelemetry,
+  type RouterConfig,
+  type RoutingDecision,
+  type SimulationOptions,
+} from "./model-router";
+
+// A workload entry: a router config plus how many requests it stands for.
+// Accepts the flat form ({ task, priority, count }) or a nested `config` as in the demo.
+const WorkloadSchema = z.preprocess(
+  (entry) =>
+    entry && typeof entry === "object" && "config" in entry
+      ? { ...(entry as { config: object }).config, ...entry, config: undefined }
+      : entry,
+  RouterConfigSchema.extend({
+    name: z.string().optional(),
+    count: z.number().int().positive().default(1),
+  })
+);
+
+// Workload file format: { "workloads": [ ...Workload ] }
+const WorkloadFileSchema = z.object({ workloads: z.array(WorkloadSchema) });
+
+// A request to replay, optionally with the model that was actually picked
+export interface ReplayRequest {
+  name?: string;
+  config: RouterConfig;
+  count: number;
+  recordedModel?: string;
+}
+
+// A routing variant to evaluate: alternative weights, strategy or priority
+export interface ReplayVariant extends SimulationOptions {
+  name: string;
+  priority?: RouterConfig["priority"]; // Replaces each request's priority
+}
+
+export interface ReplaySummary {
+  variant: string;
+  requests: number;
+  unroutable: number; // Requests no model was eligible for
+  projectedCostUsd: number;
+  avgLatencyMs: number;
+  tierMismatches: { insufficient: number; overkill: number };
+  explorations: number;
+  modelUsage: Record<string, number>;
+}
+
+export interface ReplayReport {
+  baseline: ReplaySummary;
+  candidate: ReplaySummary;
+  changedDecisions: number; // Requests routed to a different model
+  diff: {
+    projectedCostUsd: number;
+    avgLatencyMs: number;
+    tierMismatches: number;
+  };
+}
+
+// Load a workload file into replay requests
+export function loadWorkloadFile(filePath: string): ReplayRequest[] {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const file = WorkloadFileSchema.parse(
+    JSON.parse(fs.readFileSync(resolved, "utf-8"))
+  );
+  return file.workloads.map(({ name, count, ...config }) => ({
+    name,
+    config,
+    count,
+  }));
+}
+
+// Turn recorded routing decisions into replay requests
+export function historyToRequests(history: RoutingDecision[]): ReplayRequest[] {
+  return history.map((decision) => ({
+    config: decision.config,
+    count: 1,
+    recordedModel: decision.selectedModel,
+  }));
+}
+
+// Per-request token usage, the same for every model so variants compare fairly:
+// the config's estimate if set, otherwise the average observed per call
+function getProjectedUsage(
+  config: RouterConfig,
+  telemetry: Record<string, ModelTelemetry>
+): TokenUsage {
+  const entries = Object.values(telemetry);
+  const calls = entries.reduce((sum, entry) => sum + entry.callCount, 0);
+  const avg = (total: number, fallback: number) =>
+    calls > 0 && total > 0 ? total / calls : fallback;
+  return {
+    inputTokens:
+      config.estimatedInputTokens ??
+      avg(entries.reduce((sum, entry) => sum + entry.inputTokens, 0), 1000),
+    outputTokens: avg(
+      entries.reduce((sum, entry) => sum + entry.outputTokens, 0),
+      250
+    ),
+  };
+}
+
+// Summarize the models picked for each request
+function summarize(
+  variant: string,
+  requests: ReplayRequest[],
+  picks: Array<{ model: string; exploration: boolean } | null>,
+  telemetry: Record<string, ModelTelemetry>
+): ReplaySummary {
+  const summary: ReplaySummary = {
+    variant,
+    requests: 0,
+    unroutable: 0,
+    projectedCostUsd: 0,
+    avgLatencyMs: 0,
+    tierMismatches: { insufficient: 0, overkill: 0 },
+    explorations: 0,
+    modelUsage: {},
+  };
+  let totalLatencyMs = 0;
+
+  requests.forEach((request, i) => {
+    summary.requests += request.count;
+    const pick = picks[i];
+    const definition = pick && getModel(pick.model);
+    if (!pick || !definition) {
+      summary.unroutable += request.count;
+      return;
+    }
+
+    summary.modelUsage[pick.model] =
+      (summary.modelUsage[pick.model] || 0) + request.count;
+    if (pick.exploration) summary.explorations += request.count;
+    summary.projectedCostUsd +=
+      calculateCost(definition, getProjectedUsage(request.config, telemetry)) *
+      request.count;
+    totalLatencyMs +=
+      (telemetry[pick.model]?.callCount
+        ? telemetry[pick.model].avgLatencyMs
+        : definition.maxLatencyMs) * request.count;
+
+    const mismatch = getTierMismatch(definition.capabilityTier, request.config.task);
+    if (mismatch) summary.tierMismatches[mismatch] += request.count;
+  });
+
+  const routed = summary.requests - summary.unroutable;
+  summary.avgLatencyMs = routed > 0 ? totalLatencyMs / routed : 0;
+  return summary;
+}
+
+// Route each request with a variant
+function pickModels(
+  requests: ReplayRequest[],
+  telemetry: Record<string, ModelTelemetry>,
+  variant: ReplayVariant
+): Array<{ model: string; exploration: boolean } | null> {
+  return requests.map((request) => {
+    const config = variant.priority
+      ? { ...request.config, priority: variant.priority }
+      : request.config;
+    const result = simulateRouting(config, telemetry, variant);
+    return result && { model: result.selectedModel, exploration: result.exploration };
+  });
+}
+
+// Replay requests against a candidate variant and compare with a baseline:
+// "recorded" uses the models actually picked (history replays), otherwise another variant
+export function replayRouting(
+  requests: ReplayRequest[],
+  telemetry: Record<string, ModelTelemetry>,
+  baseline: ReplayVariant | "recorded",
+  candidate: ReplayVariant
+): ReplayReport {
+  const baselinePicks =
+    baseline === "recorded"
+      ? requests.map((request) =>
+          request.recordedModel
+            ? { model: request.recordedModel, exploration: false }
+            : null
+        )
+      : pickModels(requests, telemetry, baseline);
+  const candidatePicks = pickModels(requests, telemetry, candidate);
+
+  const baselineSummary = summarize(
+    baseline === "recorded" ? "recorded" : baseline.name,
+    requests,
+    baselinePicks,
+    telemetry
+  );
+  const candidateSummary = summarize(
+    candidate.name,
+    requests,
+    candidatePicks,
+    telemetry
+  );
+
+  const changedDecisions = requests.reduce(
+    (sum, request, i) =>
+      baselinePicks[i]?.model !== candidatePicks[i]?.model
+        ? sum + request.count
+        : sum,
+    0
+  );
+  const mismatches = (summary: ReplaySummary) =>
+    summary.tierMismatches.insufficient + summary.tierMismatches.overkill;
+
+  return {
+    baseline: baselineSummary,
+    candidate: candidateSummary,
+    changedDecisions,
+    diff: {
+      projectedCostUsd:
+        candidateSummary.projectedCostUsd - baselineSummary.projectedCostUsd,
+      avgLatencyMs: candidateSummary.avgLatencyMs - baselineSummary.avgLatencyMs,
+      tierMismatches: mismatches(candidateSummary) - mismatches(baselineSummary),
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import type {
+  ModelTelemetry,
+  RouterConfig,
+  ScoreBreakdown,
+} from "./model-router";
+import { computeWindowStats } from "./telemetry-window";
+
+// A model that passed the hard constraints, with its heuristic score
+export interface ScoredCandidate {
+  model: string;
+  score: number;
+  reason: string;
+  breakdown?: ScoreBreakdown;
+}
+
+export interface StrategyContext {
+  config: RouterConfig;
+  telemetry: Record<string, ModelTelemetry>;
+}
+
+// Orders scored candidates; the first entry is routed to
+export interface RoutingStrategy {
+  name: string;
+  rank(
+    candidates: ScoredCandidate[],
+    context: StrategyContext
+  ): { ranked: ScoredCandidate[]; exploration: boolean };
+}
+
+// Default: highest heuristic score wins
+export const heuristicStrategy: RoutingStrategy = {
+  name: "heuristic",
+  rank(candidates) {
+    return {
+      ranked: [...candidates].sort((a, b) => b.score - a.score),
+      exploration: false,
+    };
+  },
+};
+
+// Epsilon-greedy bandit: usually exploit the heuristic ranking, but with
+// probability epsilon route to the least-sampled other model so its telemetry stays fresh
+export function createEpsilonGreedyStrategy(
+  options: { epsilon?: number; random?: () => number } = {}
+): RoutingStrategy {
+  const epsilon =
+    options.epsilon ?? parseFloat(process.env.ROUTER_EXPLORATION_RATE || "0.1");
+  const random = options.random ?? Math.random;
+
+  return {
+    name: "epsilon-greedy",
+    rank(candidates, context) {
+      const { ranked } = heuristicStrategy.rank(candidates, context);
+      if (ranked.length < 2 || random() >= epsilon) {
+        return { ranked, exploration: false };
+      }
+
+      // Explore: the least-sampled model other than the greedy pick
+      const samples = (model: string) =>
+        computeWindowStats(context.telemetry[model]?.recentCalls || [])
+          ?.sampleCount ?? 0;
+      const others = ranked.slice(1);
+      const fewest = Math.min(...others.map((c) => samples(c.model)));
+      const undersampled = others.filter((c) => samples(c.model) === fewest);
+      const pick = undersampled[Math.floor(random() * undersampled.length)];
+
+      return {
+        ranked: [
+          { ...pick, reason: `${pick.reason}, exploration` },
+          ...ranked.filter((c) => c !== pick),
+        ],
+        exploration: true,
+      };
+    },
+  };
+}
+
+const strategies: Map<string, RoutingStrategy> = new Map();
+
+export function registerStrategy(strategy: RoutingStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+// Strategy by name, falling back to ROUTER_STRATEGY and then the heuristic
+export function getStrategy(name?: string): RoutingStrategy {
+  return (
+    (name && strategies.get(name)) ||
+    strategies.get(process.env.ROUTER_STRATEGY || "") ||
+    heuristicStrategy
+  );
+}
+
+export function listStrategies(): string[] {
+  return Array.from(strategies.keys());
+}
+
+registerStrategy(heuristicStrategy);
+registerStrategy(createEpsilonGreedyStrategy());
@@ -0,0 +1,314 @@
+import { getTelemetryStore } from "./telemetry-store";
+
+export const GRANULARITIES = ["minute", "hour", "day"] as const;
+export type Granularity = (typeof GRANULARITIES)[number];
+
+const BUCKET_MS: Record<Granularity, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// How long each resolution is kept
+export const TIMESERIES_CONFIG = {
+  RETENTION_MS: {
+    minute: parseFloat(process.env.ROUTER_TIMESERIES_MINUTE_HOURS || "24") * BUCKET_MS.hour,
+    hour: parseFloat(process.env.ROUTER_TIMESERIES_HOUR_DAYS || "30") * BUCKET_MS.day,
+    day: parseFloat(process.env.ROUTER_TIMESERIES_DAY_DAYS || "365") * BUCKET_MS.day,
+  } as Record<Granularity, number>,
+  MAX_POINTS: 1000, // Largest range a query may return, in buckets
+  FLUSH_INTERVAL_MS: parseInt(process.env.ROUTER_TIMESERIES_FLUSH_MS || "5000"), // Buffered events are written this often
+};
+
+// Latency histogram bounds; percentiles are estimated from these buckets so
+// cells can be merged across models, tasks and time
+const LATENCY_BOUNDS_MS = [
+  50, 100, 250, 500, 750, 1000, 1500, 2000, 3000, 5000, 10000, 30000,
+];
+
+// Aggregates for one model and task in one bucket
+export interface TimeSeriesCell {
+  decisions: number; // Routing decisions that selected the model
+  calls: number;
+  errors: number;
+  costUsd: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+  latencyHistogram: number[]; // Call counts per LATENCY_BOUNDS_MS bucket (+ overflow)
+}
+
+// Bucket start -> "model\ttask" -> cell
+type SeriesTable = Record<string, Record<string, TimeSeriesCell>>;
+
+// A chart-ready point
+export interface TimeSeriesPoint {
+  start: number;
+  time: string; // ISO bucket start
+  decisions: number;
+  calls: number;
+  errorRate: number; // 0-1
+  avgLatencyMs: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  p99LatencyMs: number | null;
+  costUsd: number;
+}
+
+export interface TimeSeries {
+  granularity: Granularity;
+  from: string;
+  to: string;
+  totals: TimeSeriesPoint[];
+  byModel: Record<string, TimeSeriesPoint[]>;
+  byTask: Record<string, TimeSeriesPoint[]>;
+}
+
+// Thrown when a query would return more than MAX_POINTS buckets
+export class TimeSeriesRangeError extends Error {
+  constructor(public readonly points: number) {
+    super(
+      `Range covers ${points} buckets (max ${TIMESERIES_CONFIG.MAX_POINTS}); use a coarser granularity`
+    );
+    this.name = "TimeSeriesRangeError";
+  }
+}
+
+function seriesKey(granularity: Granularity): string {
+  return `routing-timeseries-${granularity}`;
+}
+
+function bucketStart(timestamp: number, granularity: Granularity): number {
+  return timestamp - (timestamp % BUCKET_MS[granularity]);
+}
+
+function emptyCell(): TimeSeriesCell {
+  return {
+    decisions: 0,
+    calls: 0,
+    errors: 0,
+    costUsd: 0,
+    totalLatencyMs: 0,
+    maxLatencyMs: 0,
+    latencyHistogram: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0),
+  };
+}
+
+// Events not yet written, merged into the stored tables on flush
+const pending: Record<Granularity, SeriesTable> = { minute: {}, hour: {}, day: {} };
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> = Promise.resolve();
+
+function mergeTable(into: SeriesTable, table: SeriesTable): void {
+  Object.entries(table).forEach(([start, cells]) => {
+    const bucket = (into[start] ??= {});
+    Object.entries(cells).forEach(([key, cell]) => {
+      mergeCell((bucket[key] ??= emptyCell()), cell);
+    });
+  });
+}
+
+// Write buffered events to the store, one update per resolution, pruning
+// expired buckets. Events that fail to save are kept for the next flush.
+export async function flushTimeSeries(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  flushing = flushing.then(async () => {
+    for (const granularity of GRANULARITIES) {
+      const buffered = pending[granularity];
+      if (Object.keys(buffered).length === 0) continue;
+      pending[granularity] = {};
+      try {
+        await getTelemetryStore().update<SeriesTable>(
+          seriesKey(granularity),
+          {},
+          (table) => {
+            const cutoff = Date.now() - TIMESERIES_CONFIG.RETENTION_MS[granularity];
+            const kept: SeriesTable = Object.fromEntries(
+              Object.entries(table).filter(([start]) => Number(start) >= cutoff)
+            );
+            mergeTable(kept, buffered);
+            return kept;
+          }
+        );
+      } catch (error) {
+        console.warn("Failed to save routing time series:", error);
+        mergeTable(pending[granularity], buffered);
+      }
+    }
+  });
+  return flushing;
+}
+
+// Apply an event to the model/task cell of each resolution. Events are
+// buffered in memory and written every FLUSH_INTERVAL_MS, so a burst of
+// calls costs one store update per resolution instead of one per event.
+// Routes also flush when a request ends and scripts when they exit, so only
+// a crash or kill loses events: at most the last FLUSH_INTERVAL_MS of them.
+function recordPoint(
+  model: string,
+  task: string,
+  timestamp: number,
+  apply: (cell: TimeSeriesCell) => void
+): void {
+  for (const granularity of GRANULARITIES) {
+    const start = String(bucketStart(timestamp, granularity));
+    const cells = (pending[granularity][start] ??= {});
+    apply((cells[`${model}\t${task}`] ??= emptyCell()));
+  }
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      void flushTimeSeries();
+    }, TIMESERIES_CONFIG.FLUSH_INTERVAL_MS);
+    flushTimer.unref(); // Pending events don't keep a finished process alive
+  }
+}
+
+// Count a routing decision
+export function recordDecisionPoint(
+  model: string,
+  task: string,
+  timestamp: number = Date.now()
+): void {
+  recordPoint(model, task, timestamp, (cell) => {
+    cell.decisions++;
+  });
+}
+
+// Count a model call with its latency, outcome and cost
+export function recordCallPoint(
+  model: string,
+  task: string,
+  latencyMs: number,
+  success: boolean,
+  costUsd: number,
+  timestamp: number = Date.now()
+): void {
+  recordPoint(model, task, timestamp, (cell) => {
+    cell.calls++;
+    if (!success) cell.errors++;
+    cell.costUsd += costUsd;
+    cell.totalLatencyMs += latencyMs;
+    cell.maxLatencyMs = Math.max(cell.maxLatencyMs, latencyMs);
+    const index = LATENCY_BOUNDS_MS.findIndex((bound) => latencyMs <= bound);
+    cell.latencyHistogram[index === -1 ? LATENCY_BOUNDS_MS.length : index]++;
+  });
+}
+
+// Latency percentile (0-100) estimated from a histogram: the upper bound of
+// the bucket holding the nearest rank, capped at the largest observed latency
+function histogramPercentile(cell: TimeSeriesCell, p: number): number | null {
+  if (cell.calls === 0) return null;
+  const rank = Math.ceil((p / 100) * cell.calls);
+  let seen = 0;
+  for (let i = 0; i < cell.latencyHistogram.length; i++) {
+    seen += cell.latencyHistogram[i];
+    if (seen >= rank) {
+      return Math.min(LATENCY_BOUNDS_MS[i] ?? Infinity, cell.maxLatencyMs);
+    }
+  }
+  return cell.maxLatencyMs;
+}
+
+function mergeCell(into: TimeSeriesCell, cell: TimeSeriesCell): void {
+  into.decisions += cell.decisions;
+  into.calls += cell.calls;
+  into.errors += cell.errors;
+  into.costUsd += cell.costUsd;
+  into.totalLatencyMs += cell.totalLatencyMs;
+  into.maxLatencyMs = Math.max(into.maxLatencyMs, cell.maxLatencyMs);
+  cell.latencyHistogram.forEach((count, i) => {
+    into.latencyHistogram[i] += count;
+  });
+}
+
+function toPoint(start: number, cell: TimeSeriesCell): TimeSeriesPoint {
+  return {
+    start,
+    time: new Date(start).toISOString(),
+    decisions: cell.decisions,
+    calls: cell.calls,
+    errorRate: cell.calls > 0 ? cell.errors / cell.calls : 0,
+    avgLatencyMs: cell.calls > 0 ? cell.totalLatencyMs / cell.calls : null,
+    p50LatencyMs: histogramPercentile(cell, 50),
+    p95LatencyMs: histogramPercentile(cell, 95),
+    p99LatencyMs: histogramPercentile(cell, 99),
+    costUsd: cell.costUsd,
+  };
+}
+
+// Bucketed series between from and to (inclusive), with empty buckets filled in
+export async function getTimeSeries(options: {
+  from: number;
+  to: number;
+  granularity: Granularity;
+}): Promise<TimeSeries> {
+  const { granularity } = options;
+  const first = bucketStart(options.from, granularity);
+  const last = bucketStart(options.to, granularity);
+  const points = Math.floor((last - first) / BUCKET_MS[granularity]) + 1;
+  if (points > TIMESERIES_CONFIG.MAX_POINTS) {
+    throw new TimeSeriesRangeError(points);
+  }
+
+  await flushTimeSeries();
+  let table: SeriesTable = {};
+  try {
+    table = (await getTelemetryStore().get<SeriesTable>(seriesKey(granularity))) || {};
+  } catch (error) {
+    console.warn("Failed to load routing time series:", error);
+  }
+
+  // Merge cells per bucket for the totals and for each model and task
+  const starts = Array.from(
+    { length: Math.max(points, 0) },
+    (_, i) => first + i * BUCKET_MS[granularity]
+  );
+  const groups: Record<string, Map<number, TimeSeriesCell>> = {};
+  const add = (group: string, start: number, cell: TimeSeriesCell) => {
+    const buckets = (groups[group] ??= new Map());
+    if (!buckets.has(start)) buckets.set(start, emptyCell());
+    mergeCell(buckets.get(start)!, cell);
+  };
+  starts.forEach((start) => {
+    add("total", start, emptyCell());
+    Object.entries(table[start] ?? {}).forEach(([key, cell]) => {
+      const [model, task] = key.split("\t");
+      add("total", start, cell);
+      add(`model\t${model}`, start, cell);
+      add(`task\t${task}`, start, cell);
+    });
+  });
+
+  const series = (group: string) =>
+    starts.map((start) => toPoint(start, groups[group]?.get(start) ?? emptyCell()));
+  const byModel: Record<string, TimeSeriesPoint[]> = {};
+  const byTask: Record<string, TimeSeriesPoint[]> = {};
+  Object.keys(groups).forEach((group) => {
+    const [kind, name] = group.split("\t");
+    if (kind === "model") byModel[name] = series(group);
+    if (kind === "task") byTask[name] = series(group);
+  });
+
+  return {
+    granularity,
+    from: new Date(first).toISOString(),
+    to: new Date(last).toISOString(),
+    totals: series("total"),
+    byModel,
+    byTask,
+  };
+}
+
+// Flush what's still buffered once a script or CLI has nothing else to do
+function initFlushOnExit() {
+  process.on("beforeExit", () => {
+    if (GRANULARITIES.some((granularity) => Object.keys(pending[granularity]).length > 0)) {
+      void flushTimeSeries();
+    }
+  });
+}
+
+// Initialize on module load
+initFlushOnExit();
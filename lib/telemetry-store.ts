@@ -0,0 +1,298 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { RedisCache } from "./moderation-cache";
+
+// Storage for router telemetry and routing history.
+// `update` is an atomic read-modify-write so concurrent requests don't lose updates.
+export interface TelemetryStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  update<T>(key: string, initial: T, fn: (current: T) => T): Promise<T>;
+}
+
+const LOCK_TIMEOUT_MS = 5000; // Give up waiting for a lock after this long
+const LOCK_STALE_MS = 10000; // Locks from other hosts older than this are assumed abandoned
+const LOCK_RETRY_MS = 10;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Serializes async work per key within this process
+class KeyedMutex {
+  private tails: Map<string, Promise<unknown>> = new Map();
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.tails.set(key, next);
+    try {
+      return await next;
+    } finally {
+      if (this.tails.get(key) === next) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
+
+// In-memory store (per process; telemetry is lost on restart)
+export class MemoryTelemetryStore implements TelemetryStore {
+  private data: Map<string, string> = new Map();
+  private mutex = new KeyedMutex();
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.data.get(key);
+    return value === undefined ? null : (JSON.parse(value) as T);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, JSON.stringify(value));
+  }
+
+  async update<T>(key: string, initial: T, fn: (current: T) => T): Promise<T> {
+    return this.mutex.run(key, async () => {
+      const next = fn((await this.get<T>(key)) ?? initial);
+      await this.set(key, next);
+      return next;
+    });
+  }
+}
+
+// Lock owner, stored as the only entry of a lock directory. `instance` tells
+// this process apart from an earlier one that had the same pid (a restarted
+// container).
+type LockOwner = { pid: number; host: string; instance: string; acquiredAt: number };
+
+const INSTANCE_ID = crypto.randomUUID();
+
+const isErrno = (error: unknown, ...codes: string[]) =>
+  codes.includes((error as NodeJS.ErrnoException).code ?? "");
+
+// A lock is stale when its owner crashed: on this host the owner's pid is
+// gone, elsewhere (no way to check) it's older than LOCK_STALE_MS. A live
+// owner on this host is never taken over, however slow it is.
+function isStaleOwner(owner: LockOwner): boolean {
+  if (owner.host === os.hostname()) {
+    if (owner.pid === process.pid) return owner.instance !== INSTANCE_ID;
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      return isErrno(error, "ESRCH");
+    }
+  }
+  return Date.now() - owner.acquiredAt > LOCK_STALE_MS;
+}
+
+// Delete a lock only if `token` still holds it. The owner entry is named by
+// its token, so the unlink itself is the compare-and-delete; the emptied
+// directory is then removed unless a new holder has already renamed theirs
+// over it.
+async function removeLock(lockDir: string, token: string): Promise<boolean> {
+  try {
+    await fs.promises.unlink(path.join(lockDir, token));
+  } catch {
+    return false; // Already released or taken over
+  }
+  await fs.promises.rmdir(lockDir).catch(() => undefined);
+  return true;
+}
+
+// File store: one JSON file per key, atomic writes (temp file + rename) and
+// lock directories so concurrent processes don't overwrite each other's updates
+export class FileTelemetryStore implements TelemetryStore {
+  private mutex = new KeyedMutex();
+
+  constructor(private dir: string = path.join(process.cwd(), "lib")) {}
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `.${key}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(key), "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`Failed to read telemetry ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(value, null, 2));
+    await fs.promises.rename(temp, target);
+  }
+
+  async update<T>(key: string, initial: T, fn: (current: T) => T): Promise<T> {
+    return this.mutex.run(key, async () => {
+      const release = await this.lock(key);
+      try {
+        const next = fn((await this.get<T>(key)) ?? initial);
+        await this.set(key, next);
+        return next;
+      } finally {
+        await release();
+      }
+    });
+  }
+
+  // Locks are directories holding one entry, named by the holder's random
+  // token, with the owner's pid and host. A lock is built aside and renamed
+  // into place, which fails while another lock is there, so exactly one
+  // process holds it; only the holder or the single process that deletes
+  // the crashed owner's entry can release it.
+  private async lock(key: string): Promise<() => Promise<void>> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const lockDir = `${this.filePath(key)}.lock`;
+    const token = crypto.randomUUID();
+    const pendingDir = `${lockDir}.${token}.tmp`;
+    const owner: LockOwner = {
+      pid: process.pid,
+      host: os.hostname(),
+      instance: INSTANCE_ID,
+      acquiredAt: 0,
+    };
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    await fs.promises.mkdir(pendingDir);
+    try {
+      while (true) {
+        owner.acquiredAt = Date.now();
+        await fs.promises.writeFile(path.join(pendingDir, token), JSON.stringify(owner));
+        try {
+          await fs.promises.rename(pendingDir, lockDir);
+          return async () => {
+            await removeLock(lockDir, token);
+          };
+        } catch (error) {
+          if (!isErrno(error, "EEXIST", "ENOTEMPTY", "EPERM")) throw error;
+        }
+
+        // Remove locks left behind by crashed processes
+        await this.removeStaleLock(lockDir);
+
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for telemetry lock: ${lockDir}`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+    } finally {
+      await fs.promises.rm(pendingDir, { recursive: true, force: true });
+    }
+  }
+
+  private async removeStaleLock(lockDir: string): Promise<void> {
+    const entries = await fs.promises.readdir(lockDir).catch(() => null);
+    if (!entries) return; // Released in the meantime
+    if (entries.length === 0) {
+      // Its holder crashed while releasing; rmdir only removes it while empty
+      await fs.promises.rmdir(lockDir).catch(() => undefined);
+      return;
+    }
+    const [token] = entries;
+    const owner = await fs.promises
+      .readFile(path.join(lockDir, token), "utf-8")
+      .then((data) => JSON.parse(data) as LockOwner)
+      .catch(() => null);
+    if (owner && isStaleOwner(owner)) {
+      await removeLock(lockDir, token);
+    }
+  }
+}
+
+// Redis store, using the same Upstash adapter as the moderation cache
+export class RedisTelemetryStore implements TelemetryStore {
+  private mutex = new KeyedMutex();
+
+  constructor(
+    private cache: RedisCache,
+    private prefix = "router:",
+    private ttlSeconds = 30 * 24 * 60 * 60 // Keep telemetry for 30 days
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    // Upstash may return already-deserialized JSON
+    const value: unknown = await this.cache.get(this.prefix + key);
+    if (value === null || value === undefined) return null;
+    return (typeof value === "string" ? JSON.parse(value) : value) as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.cache.set(this.prefix + key, JSON.stringify(value), this.ttlSeconds);
+  }
+
+  async update<T>(key: string, initial: T, fn: (current: T) => T): Promise<T> {
+    return this.mutex.run(key, async () => {
+      const lockKey = `${this.prefix}${key}:lock`;
+      const token = crypto.randomUUID(); // Only this holder can release the lock
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+      let locked = false;
+      while (!locked) {
+        locked = await this.cache.setIfNotExists(
+          lockKey,
+          token,
+          Math.ceil(LOCK_STALE_MS / 1000)
+        );
+        if (locked) break;
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for telemetry lock: ${lockKey}`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+
+      try {
+        const next = fn((await this.get<T>(key)) ?? initial);
+        await this.set(key, next);
+        return next;
+      } finally {
+        await this.cache.delIfEquals(lockKey, token);
+      }
+    });
+  }
+}
+
+let telemetryStore: TelemetryStore | undefined;
+
+// Pick a store from ROUTER_TELEMETRY_STORE ("file" | "memory" | "redis", default "file")
+function createTelemetryStore(): TelemetryStore {
+  const type = process.env.ROUTER_TELEMETRY_STORE || "file";
+
+  if (type === "redis") {
+    const redisUrl = process.env.UPSTASH_REDIS_REST_URL;
+    const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+    if (redisUrl && redisToken) {
+      return new RedisTelemetryStore(new RedisCache(redisUrl, redisToken));
+    }
+    console.warn(
+      "ROUTER_TELEMETRY_STORE=redis but UPSTASH_REDIS_* env vars are missing, using in-memory telemetry"
+    );
+    return new MemoryTelemetryStore();
+  }
+
+  if (type === "memory") {
+    return new MemoryTelemetryStore();
+  }
+
+  return new FileTelemetryStore(process.env.ROUTER_TELEMETRY_DIR);
+}
+
+// Get the configured telemetry store
+export function getTelemetryStore(): TelemetryStore {
+  if (!telemetryStore) {
+    telemetryStore = createTelemetryStore();
+  }
+  return telemetryStore;
+}
+
+// Override the telemetry store (e.g. in tests)
+export function setTelemetryStore(store: TelemetryStore): void {
+  telemetryStore = store;
+}
@@ -0,0 +1,81 @@
+// A single recorded model call
+export interface CallSample {
+  timestamp: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+// Rolling-window summary of recent calls
+export interface WindowStats {
+  sampleCount: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  p99LatencyMs: number;
+  errorRate: number; // 0-1, share of failed calls in the window
+  successRate: number; // 0-1
+}
+
+// Window size: the last N calls, no older than X minutes
+export const WINDOW_CONFIG = {
+  MAX_SAMPLES: parseInt(process.env.ROUTER_WINDOW_SIZE || "100"),
+  MAX_AGE_MS: parseInt(process.env.ROUTER_WINDOW_MINUTES || "60") * 60 * 1000,
+};
+
+// Drop samples that fall outside the window
+export function pruneWindow(
+  samples: CallSample[],
+  now: number = Date.now()
+): CallSample[] {
+  return samples
+    .filter((sample) => now - sample.timestamp <= WINDOW_CONFIG.MAX_AGE_MS)
+    .slice(-WINDOW_CONFIG.MAX_SAMPLES);
+}
+
+// Append a call and prune the window
+export function appendSample(
+  samples: CallSample[],
+  sample: CallSample
+): CallSample[] {
+  return pruneWindow([...samples, sample], sample.timestamp);
+}
+
+// Nearest-rank percentile of a sorted list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+// Latency percentile (0-100) of successful calls in the window (null if none)
+export function latencyPercentile(
+  samples: CallSample[],
+  p: number,
+  now: number = Date.now()
+): number | null {
+  const latencies = pruneWindow(samples, now)
+    .filter((sample) => sample.success)
+    .map((sample) => sample.latencyMs)
+    .sort((a, b) => a - b);
+  return latencies.length > 0 ? percentile(latencies, p) : null;
+}
+
+// Summarize the samples currently inside the window (null if empty)
+export function computeWindowStats(
+  samples: CallSample[],
+  now: number = Date.now()
+): WindowStats | null {
+  const window = pruneWindow(samples, now);
+  if (window.length === 0) return null;
+
+  const latencies = window.map((sample) => sample.latencyMs).sort((a, b) => a - b);
+  const failures = window.filter((sample) => !sample.success).length;
+
+  return {
+    sampleCount: window.length,
+    p50LatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    p99LatencyMs: percentile(latencies, 99),
+    errorRate: failures / window.length,
+    successRate: 1 - failures / window.length,
+  };
+}
@@ -0,0 +1,224 @@
+import { z } from "zod";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { NextRequest } from "next/server";
+import { CapabilityTier } from "./model-registry";
+import { getTelemetryStore } from "./telemetry-store";
+import { getClientId } from "./rate-limit";
+
+// Budget for a tenant (an internal team or API consumer).
+// Use tenant "*" as the default for tenants without their own budget.
+export const TenantBudgetSchema = z.object({
+  tenant: z.string().min(1),
+  period: z.enum(["day", "month"]).default("month"),
+  softLimitUsd: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Above this spend, routing degrades to cheaper tiers"),
+  hardLimitUsd: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Above this spend, routing is refused"),
+  degradedMaxTier: z
+    .nativeEnum(CapabilityTier)
+    .default(CapabilityTier.STANDARD)
+    .describe("Highest tier allowed once the soft limit is exceeded"),
+});
+
+export type TenantBudget = z.infer<typeof TenantBudgetSchema>;
+export type TenantBudgetInput = z.input<typeof TenantBudgetSchema>;
+
+export type BudgetStatus = "ok" | "soft_exceeded" | "hard_exceeded";
+
+export interface TenantBudgetState {
+  tenant: string;
+  period: TenantBudget["period"];
+  periodKey: string; // e.g. "2026-10" or "2026-10-19"
+  spentUsd: number;
+  softLimitUsd?: number;
+  hardLimitUsd?: number;
+  degradedMaxTier: CapabilityTier;
+  status: BudgetStatus;
+}
+
+// Thrown when a tenant has hit its hard spending cap
+export class BudgetExceededError extends Error {
+  constructor(public readonly budget: TenantBudgetState) {
+    super(
+      `Tenant "${budget.tenant}" has spent $${budget.spentUsd.toFixed(4)} of its ` +
+        `$${budget.hardLimitUsd} ${budget.period === "day" ? "daily" : "monthly"} budget`
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+const SPEND_KEY = "tenant-spend";
+const DAYS_KEPT = 31; // Spend history kept per tenant
+const MONTHS_KEPT = 12;
+
+const budgets: Map<string, TenantBudget> = new Map();
+
+// Register (or replace) a tenant budget
+export function setTenantBudget(budget: TenantBudgetInput): TenantBudget {
+  const parsed = TenantBudgetSchema.parse(budget);
+  budgets.set(parsed.tenant, parsed);
+  return parsed;
+}
+
+export function removeTenantBudget(tenant: string): boolean {
+  return budgets.delete(tenant);
+}
+
+// Budget for a tenant, falling back to the "*" default
+export function getTenantBudget(tenant: string): TenantBudget | undefined {
+  return budgets.get(tenant) ?? budgets.get("*");
+}
+
+export function listTenantBudgets(): TenantBudget[] {
+  return Array.from(budgets.values());
+}
+
+// Load budgets from a JSON config file: { "budgets": [ ...TenantBudget ] }
+export function loadTenantBudgets(filePath: string): TenantBudget[] {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const file = z
+    .object({ budgets: z.array(TenantBudgetSchema) })
+    .parse(JSON.parse(fs.readFileSync(resolved, "utf-8")));
+  return file.budgets.map((budget) => setTenantBudget(budget));
+}
+
+function getPeriodKey(period: TenantBudget["period"], now: number): string {
+  const iso = new Date(now).toISOString();
+  return period === "day" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+// Current spend and budget status for a tenant
+export async function getTenantBudgetState(
+  tenant: string,
+  now: number = Date.now()
+): Promise<TenantBudgetState> {
+  const budget = getTenantBudget(tenant);
+  const period = budget?.period ?? "month";
+  const periodKey = getPeriodKey(period, now);
+
+  let spentUsd = 0;
+  try {
+    const spend =
+      (await getTelemetryStore().get<Record<string, Record<string, number>>>(
+        SPEND_KEY
+      )) || {};
+    spentUsd = spend[tenant]?.[periodKey] ?? 0;
+  } catch (error) {
+    console.warn("Failed to load tenant spend:", error);
+  }
+
+  let status: BudgetStatus = "ok";
+  if (budget?.hardLimitUsd !== undefined && spentUsd >= budget.hardLimitUsd) {
+    status = "hard_exceeded";
+  } else if (
+    budget?.softLimitUsd !== undefined &&
+    spentUsd >= budget.softLimitUsd
+  ) {
+    status = "soft_exceeded";
+  }
+
+  return {
+    tenant,
+    period,
+    periodKey,
+    spentUsd,
+    softLimitUsd: budget?.softLimitUsd,
+    hardLimitUsd: budget?.hardLimitUsd,
+    degradedMaxTier: budget?.degradedMaxTier ?? CapabilityTier.STANDARD,
+    status,
+  };
+}
+
+// Add spend for a tenant to both the day and month periods
+export async function recordTenantSpend(
+  tenant: string,
+  costUsd: number,
+  now: number = Date.now()
+): Promise<void> {
+  if (costUsd <= 0) return;
+  try {
+    await getTelemetryStore().update<Record<string, Record<string, number>>>(
+      SPEND_KEY,
+      {},
+      (spend) => {
+        const periods = spend[tenant] || {};
+        for (const key of [getPeriodKey("day", now), getPeriodKey("month", now)]) {
+          periods[key] = (periods[key] || 0) + costUsd;
+        }
+        // Keep only the most recent periods
+        const keys = Object.keys(periods).sort();
+        const kept = [
+          ...keys.filter((key) => key.length === 10).slice(-DAYS_KEPT),
+          ...keys.filter((key) => key.length === 7).slice(-MONTHS_KEPT),
+        ];
+        spend[tenant] = Object.fromEntries(kept.map((key) => [key, periods[key]]));
+        return spend;
+      }
+    );
+  } catch (error) {
+    console.warn("Failed to save tenant spend:", error);
+  }
+}
+
+// Spend state for every tenant that has spend or a budget
+export async function listTenantBudgetStates(): Promise<TenantBudgetState[]> {
+  let tenants: string[] = [];
+  try {
+    const spend =
+      (await getTelemetryStore().get<Record<string, Record<string, number>>>(
+        SPEND_KEY
+      )) || {};
+    tenants = Object.keys(spend);
+  } catch (error) {
+    console.warn("Failed to load tenant spend:", error);
+  }
+  listTenantBudgets().forEach((budget) => {
+    if (budget.tenant !== "*" && !tenants.includes(budget.tenant)) {
+      tenants.push(budget.tenant);
+    }
+  });
+  return Promise.all(tenants.map((tenant) => getTenantBudgetState(tenant)));
+}
+
+const hashKey = (key: string) => crypto.createHash("sha256").update(key).digest("hex");
+
+// API key hash -> tenant, from ROUTER_TENANT_KEYS ("tenant:key,tenant:key")
+const tenantKeys: Map<string, string> = new Map();
+
+// Tenant for a request: the tenant whose API key the request sends as
+// `x-api-key`, otherwise the caller's rate-limit client id. Unauthenticated
+// callers can't pick a tenant, and each one is held to the "*" default budget.
+export function getTenantId(request: NextRequest): string {
+  const key = request.headers.get("x-api-key");
+  return (key && tenantKeys.get(hashKey(key))) || getClientId(request);
+}
+
+function initBudgets() {
+  for (const entry of (process.env.ROUTER_TENANT_KEYS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator > 0 && separator < entry.length - 1) {
+      tenantKeys.set(hashKey(entry.slice(separator + 1).trim()), entry.slice(0, separator).trim());
+    }
+  }
+
+  const budgetsPath = process.env.ROUTER_BUDGETS_PATH;
+  if (budgetsPath) {
+    try {
+      const loaded = loadTenantBudgets(budgetsPath);
+      console.log(`✅ Loaded ${loaded.length} tenant budgets from ${budgetsPath}`);
+    } catch (error) {
+      console.warn(`Failed to load tenant budgets from ${budgetsPath}:`, error);
+    }
+  }
+}
+
+// Initialize on module load
+initBudgets();